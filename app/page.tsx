@@ -6,10 +6,26 @@ import { ImageViewer } from "@/components/image-viewer";
 import { PDFInput } from "@/components/pdf-input";
 import { FilterControls } from "@/components/filter-controls";
 import { PresetManager } from "@/components/preset-manager";
+import { RenderSettings } from "@/components/render-settings";
 import { CommandPalette } from "@/components/command-palette";
 import { GlobalDropOverlay } from "@/components/global-drop-overlay";
 import { useGlobalDragDrop } from "@/hooks/use-global-drag-drop";
 import { useSessionPersistence } from "@/hooks/use-session-persistence";
+import type { DarkPageMode, PageClass } from "@/lib/page-analysis";
+import type { ExclusionRegion } from "@/lib/exclusion-regions";
+import type { ReadingDirection } from "@/lib/spreads";
+import { DEFAULT_MAX_RENDERED_PAGES, MAX_RENDERED_PAGES_RANGE } from "@/lib/page-layout";
+import {
+  DEFAULT_ADJUSTMENTS,
+  DEFAULT_FILTER_SETTINGS,
+  applyPreset,
+  normalizeFilterSettings,
+  normalizePresets,
+  readFilterParams,
+  type AdjustmentKey,
+  type FilterPreset,
+  type FilterSettings,
+} from "@/lib/filters";
 import { Settings2, PanelLeftClose, PanelLeft, Maximize, Minimize, ChevronLeft, ChevronRight } from "lucide-react";
 import { Button } from "@/components/ui/button";
 import {
@@ -23,33 +39,7 @@ import {
 
 const FILTER_STORAGE_KEY = "dark-pdf-filters";
 const PRESETS_STORAGE_KEY = "dark-pdf-presets";
-
-interface FilterSettings {
-  darkMode: boolean;
-  smartDarkMode: boolean;
-  inversion: number;
-  brightness: number;
-  contrast: number;
-  sepia: number;
-}
-
-interface Preset {
-  id: string;
-  name: string;
-  inversion: number;
-  brightness: number;
-  contrast: number;
-  sepia: number;
-}
-
-const defaultFilters: FilterSettings = {
-  darkMode: true,
-  smartDarkMode: false,
-  inversion: 100,
-  brightness: 200,
-  contrast: 170,
-  sepia: 50,
-};
+const MAX_RENDERED_PAGES_STORAGE_KEY = "dark-pdf-max-rendered-pages";
 
 function HomeContent() {
   const [pdfSource, setPdfSource] = useState<string | ArrayBuffer | null>(null);
@@ -58,18 +48,14 @@ function HomeContent() {
   const [imageFileName, setImageFileName] = useState<string | null>(null);
   const [fileType, setFileType] = useState<'pdf' | 'image' | null>(null);
   const [stretchMode, setStretchMode] = useState(false);
-  const [darkMode, setDarkMode] = useState(defaultFilters.darkMode);
-  const [smartDarkMode, setSmartDarkMode] = useState(defaultFilters.smartDarkMode);
-  const [inversion, setInversion] = useState(defaultFilters.inversion);
-  const [brightness, setBrightness] = useState(defaultFilters.brightness);
-  const [contrast, setContrast] = useState(defaultFilters.contrast);
-  const [sepia, setSepia] = useState(defaultFilters.sepia);
+  const [filters, setFilters] = useState<FilterSettings>(DEFAULT_FILTER_SETTINGS);
   const [sidebarOpen, setSidebarOpen] = useState(true);
   const [mobileSheetOpen, setMobileSheetOpen] = useState(false);
   const [filtersLoaded, setFiltersLoaded] = useState(false);
   const [isZenMode, setIsZenMode] = useState(false);
   const [showZenControls, setShowZenControls] = useState(false);
-  const [presets, setPresets] = useState<Preset[]>([]);
+  const [presets, setPresets] = useState<FilterPreset[]>([]);
+  const [maxRenderedPages, setMaxRenderedPages] = useState(DEFAULT_MAX_RENDERED_PAGES);
   const [currentPage, setCurrentPage] = useState(1);
   const [totalPages, setTotalPages] = useState(0);
   const [viewerScale, setViewerScale] = useState<number | null>(null);
@@ -77,7 +63,17 @@ function HomeContent() {
   const [zoomInFn, setZoomInFn] = useState<(() => void) | null>(null);
   const [zoomOutFn, setZoomOutFn] = useState<(() => void) | null>(null);
   const [startOCRFn, setStartOCRFn] = useState<(() => void) | null>(null);
+  const [openFindFn, setOpenFindFn] = useState<(() => void) | null>(null);
+  const [openPageFiltersFn, setOpenPageFiltersFn] = useState<(() => void) | null>(null);
+  const [openExportFn, setOpenExportFn] = useState<(() => void) | null>(null);
   const [scrollMode, setScrollMode] = useState(false);
+  const [readingDirection, setReadingDirection] = useState<ReadingDirection>("ltr");
+  const [pageRotations, setPageRotations] = useState<Record<number, number>>({});
+  const [darkPageMode, setDarkPageMode] = useState<DarkPageMode>("auto");
+  const [pageInversion, setPageInversion] = useState<Record<number, boolean>>({});
+  const [pageClasses, setPageClasses] = useState<Record<number, PageClass>>({});
+  const [pageAdjustments, setPageAdjustments] = useState<Record<number, Partial<Record<AdjustmentKey, number>>>>({});
+  const [pageRegions, setPageRegions] = useState<Record<number, ExclusionRegion[]>>({});
 
   const { saveSession, loadSession } = useSessionPersistence();
 
@@ -93,10 +89,17 @@ function HomeContent() {
   useEffect(() => {
     const stored = localStorage.getItem(PRESETS_STORAGE_KEY);
     if (stored) {
-      try { setPresets(JSON.parse(stored)); } catch { /* Invalid JSON */ }
+      try { setPresets(normalizePresets(JSON.parse(stored))); } catch { /* Invalid JSON */ }
     }
+    const storedLimit = Number(localStorage.getItem(MAX_RENDERED_PAGES_STORAGE_KEY));
+    if (storedLimit >= MAX_RENDERED_PAGES_RANGE.min && storedLimit <= MAX_RENDERED_PAGES_RANGE.max) setMaxRenderedPages(storedLimit);
   }, []);
 
+  const handleMaxRenderedPagesChange = (value: number) => {
+    setMaxRenderedPages(value);
+    localStorage.setItem(MAX_RENDERED_PAGES_STORAGE_KEY, String(value));
+  };
+
   const handleFileDrop = useCallback((file: File) => {
     const isPDF = file.type === "application/pdf";
     const isImage = IMAGE_TYPES.includes(file.type);
@@ -128,25 +131,13 @@ function HomeContent() {
   const { isDragging } = useGlobalDragDrop({ onFileDrop: handleFileDrop });
 
   useEffect(() => {
+    let storedFilters = DEFAULT_FILTER_SETTINGS;
     const stored = localStorage.getItem(FILTER_STORAGE_KEY);
     if (stored) {
-      try {
-        const filters: FilterSettings = JSON.parse(stored);
-        setDarkMode(filters.darkMode);
-        setSmartDarkMode(filters.smartDarkMode ?? false);
-        setInversion(filters.inversion);
-        setBrightness(filters.brightness);
-        setContrast(filters.contrast);
-        setSepia(filters.sepia);
-      } catch { /* Invalid JSON */ }
+      try { storedFilters = normalizeFilterSettings(JSON.parse(stored)); } catch { /* Invalid JSON */ }
     }
     const params = new URLSearchParams(window.location.search);
-    if (params.has("dm")) setDarkMode(params.get("dm") === "1");
-    if (params.has("sdm")) setSmartDarkMode(params.get("sdm") === "1");
-    if (params.has("inv")) setInversion(Math.min(100, Math.max(0, parseInt(params.get("inv") || "90", 10))));
-    if (params.has("br")) setBrightness(Math.min(300, Math.max(0, parseInt(params.get("br") || "90", 10))));
-    if (params.has("ct")) setContrast(Math.min(300, Math.max(0, parseInt(params.get("ct") || "90", 10))));
-    if (params.has("sp")) setSepia(Math.min(100, Math.max(0, parseInt(params.get("sp") || "10", 10))));
+    setFilters(readFilterParams(params, storedFilters));
     
     // Load file from URL parameter
     const fileUrl = params.get("file");
@@ -184,9 +175,8 @@ function HomeContent() {
 
   useEffect(() => {
     if (!filtersLoaded) return;
-    const filters: FilterSettings = { darkMode, smartDarkMode, inversion, brightness, contrast, sepia };
     localStorage.setItem(FILTER_STORAGE_KEY, JSON.stringify(filters));
-  }, [darkMode, smartDarkMode, inversion, brightness, contrast, sepia, filtersLoaded]);
+  }, [filters, filtersLoaded]);
 
   useEffect(() => {
     if (!pdfSource || !filtersLoaded) return;
@@ -194,11 +184,18 @@ function HomeContent() {
       saveSession(pdfSource, pdfFileName, {
         pageNum: currentPage,
         zoom: viewerScale || 1,
-        filters: { darkMode, smartDarkMode, inversion, brightness, contrast, sepia },
+        filters,
+        readingDirection,
+        pageRotations,
+        darkPageMode,
+        pageInversion,
+        pageClasses,
+        pageAdjustments,
+        pageRegions,
       });
     }, 500);
     return () => clearTimeout(timeoutId);
-  }, [pdfSource, pdfFileName, currentPage, viewerScale, darkMode, smartDarkMode, inversion, brightness, contrast, sepia, filtersLoaded, saveSession]);
+  }, [pdfSource, pdfFileName, currentPage, viewerScale, filters, readingDirection, pageRotations, darkPageMode, pageInversion, pageClasses, pageAdjustments, pageRegions, filtersLoaded, saveSession]);
 
   useEffect(() => {
     if (!isZenMode) {
@@ -236,17 +233,18 @@ function HomeContent() {
     setPdfSource(source);
     setPdfFileName(fileName || null);
     const session = await loadSession(source);
+    // Reading direction is per document, so fall back to LTR for documents without one
+    setReadingDirection(session?.readingDirection ?? "ltr");
+    setPageRotations(session?.pageRotations ?? {});
+    setDarkPageMode(session?.darkPageMode ?? "auto");
+    setPageInversion(session?.pageInversion ?? {});
+    setPageClasses(session?.pageClasses ?? {});
+    setPageAdjustments(session?.pageAdjustments ?? {});
+    setPageRegions(session?.pageRegions ?? {});
     if (session) {
       setCurrentPage(session.pageNum);
       setViewerScale(session.zoom);
-      if (session.filters) {
-        setDarkMode(session.filters.darkMode);
-        setSmartDarkMode(session.filters.smartDarkMode ?? false);
-        setInversion(session.filters.inversion);
-        setBrightness(session.filters.brightness);
-        setContrast(session.filters.contrast);
-        setSepia(session.filters.sepia);
-      }
+      if (session.filters) setFilters(normalizeFilterSettings(session.filters));
     }
   };
 
@@ -261,24 +259,16 @@ function HomeContent() {
     setImageFileName(fileName);
   };
 
-  const handleApplyPreset = (preset: { inversion: number; brightness: number; contrast: number; sepia: number }) => {
-    setInversion(preset.inversion);
-    setBrightness(preset.brightness);
-    setContrast(preset.contrast);
-    setSepia(preset.sepia);
-  };
+  const updateFilters = (patch: Partial<FilterSettings>) => setFilters((prev) => ({ ...prev, ...patch }));
+
+  const handleApplyPreset = (preset: FilterPreset) => setFilters((prev) => applyPreset(prev, preset));
 
   const handleApplyPresetById = (presetId: string) => {
     const preset = presets.find(p => p.id === presetId);
     if (preset) handleApplyPreset(preset);
   };
 
-  const resetFilters = () => {
-    setInversion(defaultFilters.inversion);
-    setBrightness(defaultFilters.brightness);
-    setContrast(defaultFilters.contrast);
-    setSepia(defaultFilters.sepia);
-  };
+  const resetFilters = () => updateFilters({ adjustments: DEFAULT_ADJUSTMENTS });
 
   const handlePageChange = useCallback((current: number, total: number) => {
     setCurrentPage(current);
@@ -294,26 +284,24 @@ function HomeContent() {
     zoomIn: () => void;
     zoomOut: () => void;
     startOCR: () => void;
+    openFind: () => void;
+    openPageFilters: () => void;
+    openExport: () => void;
   }) => {
     setGoToPageFn(() => controls.goToPage);
     setZoomInFn(() => controls.zoomIn);
     setZoomOutFn(() => controls.zoomOut);
     setStartOCRFn(() => controls.startOCR);
+    setOpenFindFn(() => controls.openFind);
+    setOpenPageFiltersFn(() => controls.openPageFilters);
+    setOpenExportFn(() => controls.openExport);
   }, []);
 
   const filterControlsProps = {
-    darkMode,
-    setDarkMode,
-    smartDarkMode,
-    setSmartDarkMode,
-    inversion,
-    setInversion,
-    brightness,
-    setBrightness,
-    contrast,
-    setContrast,
-    sepia,
-    setSepia,
+    settings: filters,
+    onSettingsChange: updateFilters,
+    presets,
+    ...(fileType === 'pdf' && { darkPageMode, onDarkPageModeChange: setDarkPageMode }),
   };
 
   return (
@@ -321,14 +309,12 @@ function HomeContent() {
       <GlobalDropOverlay isDragging={isDragging} />
       
       <CommandPalette
-        darkMode={darkMode}
-        smartDarkMode={smartDarkMode}
+        filters={filters}
         isZenMode={isZenMode}
         currentPage={currentPage}
         totalPages={totalPages}
         presets={presets}
-        onToggleDarkMode={() => setDarkMode(!darkMode)}
-        onToggleSmartDarkMode={() => setSmartDarkMode(!smartDarkMode)}
+        onFiltersChange={updateFilters}
         onToggleZenMode={() => setIsZenMode(!isZenMode)}
         onResetFilters={resetFilters}
         onApplyPreset={handleApplyPresetById}
@@ -336,6 +322,9 @@ function HomeContent() {
         onZoomIn={() => zoomInFn?.()}
         onZoomOut={() => zoomOutFn?.()}
         onStartOCR={startOCRFn ? () => startOCRFn() : undefined}
+        onOpenFind={fileType === 'pdf' && openFindFn ? () => openFindFn() : undefined}
+        onOpenPageFilters={fileType === 'pdf' && openPageFiltersFn ? () => openPageFiltersFn() : undefined}
+        onOpenExport={fileType === 'pdf' && openExportFn ? () => openExportFn() : undefined}
       />
 
       {!isZenMode && (
@@ -372,8 +361,13 @@ function HomeContent() {
                     <FilterControls {...filterControlsProps} />
                   </div>
                   <div className="border-t border-border pt-6">
-                    <PresetManager inversion={inversion} brightness={brightness} contrast={contrast} sepia={sepia} darkMode={darkMode} smartDarkMode={smartDarkMode} onApplyPreset={handleApplyPreset} />
+                    <PresetManager settings={filters} onApplyPreset={handleApplyPreset} onPresetsChange={setPresets} />
                   </div>
+                  {fileType === 'pdf' && (
+                    <div className="border-t border-border pt-6">
+                      <RenderSettings maxRenderedPages={maxRenderedPages} onMaxRenderedPagesChange={handleMaxRenderedPagesChange} />
+                    </div>
+                  )}
                   {fileType === 'image' && (
                     <div className="border-t border-border pt-6">
                       <button
@@ -402,8 +396,13 @@ function HomeContent() {
                 <FilterControls {...filterControlsProps} />
               </div>
               <div className="border-t border-border pt-6">
-                <PresetManager inversion={inversion} brightness={brightness} contrast={contrast} sepia={sepia} darkMode={darkMode} smartDarkMode={smartDarkMode} onApplyPreset={handleApplyPreset} />
+                <PresetManager settings={filters} onApplyPreset={handleApplyPreset} onPresetsChange={setPresets} />
               </div>
+              {fileType === 'pdf' && (
+                <div className="border-t border-border pt-6">
+                  <RenderSettings maxRenderedPages={maxRenderedPages} onMaxRenderedPagesChange={handleMaxRenderedPagesChange} />
+                </div>
+              )}
               {fileType === 'image' && (
                 <div className="border-t border-border pt-6">
                   <button
@@ -425,12 +424,7 @@ function HomeContent() {
             <ImageViewer
               imageSource={imageSource}
               fileName={imageFileName}
-              darkMode={darkMode}
-              smartDarkMode={smartDarkMode}
-              inversion={inversion}
-              brightness={brightness}
-              contrast={contrast}
-              sepia={sepia}
+              filters={filters}
               isZenMode={isZenMode}
               stretchMode={stretchMode}
             />
@@ -438,19 +432,30 @@ function HomeContent() {
             <PDFViewer
               pdfSource={pdfSource}
               pdfFileName={pdfFileName}
-              darkMode={darkMode}
-              smartDarkMode={smartDarkMode}
-              inversion={inversion}
-              brightness={brightness}
-              contrast={contrast}
-              sepia={sepia}
+              filters={filters}
+              presets={presets}
               isZenMode={isZenMode}
               initialPage={currentPage}
               initialScale={viewerScale}
               scrollMode={scrollMode}
+              maxRenderedPages={maxRenderedPages}
               onPageChange={handlePageChange}
               onScaleChange={handleScaleChange}
+              readingDirection={readingDirection}
               onScrollModeChange={setScrollMode}
+              pageRotations={pageRotations}
+              onReadingDirectionChange={setReadingDirection}
+              onPageRotationsChange={setPageRotations}
+              darkPageMode={darkPageMode}
+              pageInversion={pageInversion}
+              onDarkPageModeChange={setDarkPageMode}
+              onPageInversionChange={setPageInversion}
+              pageClasses={pageClasses}
+              onPageClassesChange={setPageClasses}
+              pageAdjustments={pageAdjustments}
+              onPageAdjustmentsChange={setPageAdjustments}
+              pageRegions={pageRegions}
+              onPageRegionsChange={setPageRegions}
               onViewerReady={handleViewerReady}
             />
           )}
@@ -461,11 +466,11 @@ function HomeContent() {
         <div className="fixed top-4 left-1/2 -translate-x-1/2 z-50 animate-in fade-in slide-in-from-top-4">
           <div className="flex items-center gap-2 rounded-full bg-card/95 px-4 py-2 shadow-lg backdrop-blur border border-border">
             <Button variant="ghost" size="icon" className="h-8 w-8" onClick={() => goToPageFn?.(currentPage - 1)} disabled={currentPage <= 1}>
-              <ChevronLeft className="h-4 w-4" />
+              <ChevronLeft className={`h-4 w-4 ${readingDirection === "rtl" ? "-scale-x-100" : ""}`} />
             </Button>
             <span className="min-w-[60px] text-center text-sm text-foreground">{currentPage} / {totalPages}</span>
             <Button variant="ghost" size="icon" className="h-8 w-8" onClick={() => goToPageFn?.(currentPage + 1)} disabled={currentPage >= totalPages}>
-              <ChevronRight className="h-4 w-4" />
+              <ChevronRight className={`h-4 w-4 ${readingDirection === "rtl" ? "-scale-x-100" : ""}`} />
             </Button>
             <div className="mx-1 h-4 w-px bg-border" />
             <Button variant="ghost" size="icon" className="h-8 w-8" onClick={() => setIsZenMode(false)} title="Exit Zen Mode">
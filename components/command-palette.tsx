@@ -22,17 +22,29 @@ import {
   ZoomIn,
   ZoomOut,
   ScanText,
+  Search,
+  Image,
+  Wand2,
+  SlidersHorizontal,
+  Download,
+  type LucideIcon,
 } from "lucide-react";
+import { FILTER_MODES, type FilterModeKey, type FilterSettings } from "@/lib/filters";
+
+const MODE_ICONS: Record<Exclude<FilterModeKey, "darkMode">, LucideIcon> = {
+  smartDarkMode: Sparkles,
+  preserveImages: Image,
+  duotoneMode: Palette,
+  autoMode: Wand2,
+};
 
 interface CommandPaletteProps {
-  darkMode: boolean;
-  smartDarkMode: boolean;
+  filters: FilterSettings;
   isZenMode: boolean;
   currentPage: number;
   totalPages: number;
   presets: Array<{ id: string; name: string }>;
-  onToggleDarkMode: () => void;
-  onToggleSmartDarkMode: () => void;
+  onFiltersChange: (patch: Partial<FilterSettings>) => void;
   onToggleZenMode: () => void;
   onResetFilters: () => void;
   onApplyPreset: (presetId: string) => void;
@@ -40,17 +52,18 @@ interface CommandPaletteProps {
   onZoomIn: () => void;
   onZoomOut: () => void;
   onStartOCR?: () => void;
+  onOpenFind?: () => void;
+  onOpenPageFilters?: () => void;
+  onOpenExport?: () => void;
 }
 
 export function CommandPalette({
-  darkMode,
-  smartDarkMode,
+  filters,
   isZenMode,
   currentPage,
   totalPages,
   presets,
-  onToggleDarkMode,
-  onToggleSmartDarkMode,
+  onFiltersChange,
   onToggleZenMode,
   onResetFilters,
   onApplyPreset,
@@ -58,6 +71,9 @@ export function CommandPalette({
   onZoomIn,
   onZoomOut,
   onStartOCR,
+  onOpenFind,
+  onOpenPageFilters,
+  onOpenExport,
 }: CommandPaletteProps) {
   const [open, setOpen] = useState(false);
   const [pageInput, setPageInput] = useState("");
@@ -99,14 +115,16 @@ export function CommandPalette({
         <CommandEmpty>No results found.</CommandEmpty>
         
         <CommandGroup heading="View">
-          <CommandItem onSelect={() => handleSelect(onToggleDarkMode)}>
-            {darkMode ? <Sun className="mr-2 h-4 w-4" /> : <Moon className="mr-2 h-4 w-4" />}
-            <span>{darkMode ? "Disable" : "Enable"} Dark Mode</span>
-          </CommandItem>
-          <CommandItem onSelect={() => handleSelect(onToggleSmartDarkMode)}>
-            <Sparkles className="mr-2 h-4 w-4" />
-            <span>{smartDarkMode ? "Disable" : "Enable"} Color Preserve Mode</span>
-          </CommandItem>
+          {FILTER_MODES.map((mode) => {
+            const enabled = filters[mode.key];
+            const Icon = mode.key === "darkMode" ? (enabled ? Sun : Moon) : MODE_ICONS[mode.key];
+            return (
+              <CommandItem key={mode.key} onSelect={() => handleSelect(() => onFiltersChange({ [mode.key]: !enabled }))}>
+                <Icon className="mr-2 h-4 w-4" />
+                <span>{enabled ? "Disable" : "Enable"} {mode.label}</span>
+              </CommandItem>
+            );
+          })}
           <CommandItem onSelect={() => handleSelect(onToggleZenMode)}>
             <Maximize className="mr-2 h-4 w-4" />
             <span>{isZenMode ? "Exit" : "Enter"} Zen Mode</span>
@@ -173,6 +191,24 @@ export function CommandPalette({
         <CommandSeparator />
 
         <CommandGroup heading="Tools">
+          {onOpenFind && (
+            <CommandItem onSelect={() => handleSelect(onOpenFind)}>
+              <Search className="mr-2 h-4 w-4" />
+              <span>Find in Document</span>
+            </CommandItem>
+          )}
+          {onOpenPageFilters && (
+            <CommandItem onSelect={() => handleSelect(onOpenPageFilters)}>
+              <SlidersHorizontal className="mr-2 h-4 w-4" />
+              <span>Override Filters for Pages…</span>
+            </CommandItem>
+          )}
+          {onOpenExport && (
+            <CommandItem onSelect={() => handleSelect(onOpenExport)}>
+              <Download className="mr-2 h-4 w-4" />
+              <span>Export PDF…</span>
+            </CommandItem>
+          )}
           {onStartOCR && (
             <CommandItem onSelect={() => handleSelect(onStartOCR)}>
               <ScanText className="mr-2 h-4 w-4" />
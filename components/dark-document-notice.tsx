@@ -0,0 +1,25 @@
+"use client";
+
+import { Button } from "@/components/ui/button";
+import { Moon, X } from "lucide-react";
+
+interface DarkDocumentNoticeProps {
+  onInvertAnyway: () => void;
+  onKeepOriginal: () => void;
+  onDismiss: () => void;
+}
+
+// Shown when the first pages of a document already have a dark background
+export function DarkDocumentNotice({ onInvertAnyway, onKeepOriginal, onDismiss }: DarkDocumentNoticeProps) {
+  return (
+    <div className="flex items-center gap-2 border-b border-border bg-card px-2 sm:px-4 py-1.5">
+      <Moon className="h-4 w-4 flex-shrink-0 text-primary" />
+      <p className="min-w-0 flex-1 text-xs sm:text-sm text-muted-foreground">
+        This document already looks dark, so its dark pages are shown in their original colors.
+      </p>
+      <Button variant="ghost" size="sm" onClick={onInvertAnyway} className="h-8 flex-shrink-0 text-xs">Invert anyway</Button>
+      <Button variant="ghost" size="sm" onClick={onKeepOriginal} className="h-8 flex-shrink-0 text-xs">Never invert</Button>
+      <Button variant="ghost" size="icon" onClick={onDismiss} title="Dismiss" className="h-8 w-8 flex-shrink-0"><X className="h-4 w-4" /></Button>
+    </div>
+  );
+}
@@ -0,0 +1,212 @@
+"use client";
+
+import { useEffect, useRef, useState } from "react";
+import { Loader2 } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Slider } from "@/components/ui/slider";
+import { Switch } from "@/components/ui/switch";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import {
+  EXPORT_DPI_OPTIONS,
+  EXPORT_FORMATS,
+  formatFileSize,
+  getExportFormat,
+  type ExportFormat,
+  type ExportMode,
+  type ExportOptions,
+} from "@/lib/export-options";
+import { parsePageRanges } from "@/lib/page-ranges";
+
+interface ExportDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  totalPages: number;
+  // Options of the previous export, so the dialog opens with them
+  initialOptions: ExportOptions;
+  // Estimated output size in bytes for the given options and pages
+  estimateSize: (options: ExportOptions, pages: number[]) => Promise<number>;
+  onExport: (options: ExportOptions, pages: number[]) => void;
+}
+
+// Delay before re-estimating the file size while options are being changed
+const ESTIMATE_DELAY_MS = 400;
+
+const SELECT_CLASS = "h-8 rounded border border-border bg-input px-1 text-xs text-foreground focus:outline-none focus:ring-1 focus:ring-primary";
+
+export function ExportDialog({ open, onOpenChange, totalPages, initialOptions, estimateSize, onExport }: ExportDialogProps) {
+  const [options, setOptions] = useState(initialOptions);
+  const [estimate, setEstimate] = useState<number | null>(null);
+  const [isEstimating, setIsEstimating] = useState(false);
+  const [wasOpen, setWasOpen] = useState(false);
+  // The parent builds a new estimator on every render; the estimate only reruns when the options change
+  const estimateSizeRef = useRef(estimateSize);
+
+  // Start from the last export's options each time the dialog opens
+  if (open !== wasOpen) {
+    setWasOpen(open);
+    if (open) setOptions(initialOptions);
+  }
+
+  useEffect(() => {
+    estimateSizeRef.current = estimateSize;
+  }, [estimateSize]);
+
+  const pages = parsePageRanges(options.pages, totalPages);
+  const format = getExportFormat(options.format);
+  const update = (patch: Partial<ExportOptions>) => setOptions((prev) => ({ ...prev, ...patch }));
+
+  useEffect(() => {
+    const pages = parsePageRanges(options.pages, totalPages);
+    if (!open || !pages) {
+      setEstimate(null);
+      setIsEstimating(false);
+      return;
+    }
+    let cancelled = false;
+    setIsEstimating(true);
+    const timeoutId = setTimeout(() => {
+      estimateSizeRef.current(options, pages)
+        .then((bytes) => { if (!cancelled) setEstimate(bytes); })
+        .catch(() => { if (!cancelled) setEstimate(null); })
+        .finally(() => { if (!cancelled) setIsEstimating(false); });
+    }, ESTIMATE_DELAY_MS);
+    return () => {
+      cancelled = true;
+      clearTimeout(timeoutId);
+    };
+  }, [open, options, totalPages]);
+
+  const submit = () => {
+    if (!pages) return;
+    onExport(options, pages);
+    onOpenChange(false);
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="max-w-md bg-card">
+        <DialogHeader>
+          <DialogTitle className="text-foreground">Export PDF</DialogTitle>
+          <DialogDescription className="text-muted-foreground">
+            Save the document with your filters applied.
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="space-y-4">
+          <div className="flex items-center justify-between gap-2">
+            <Label htmlFor="export-mode" className="text-sm text-foreground">Mode</Label>
+            <select
+              id="export-mode"
+              value={options.mode}
+              onChange={(e) => update({ mode: e.target.value as ExportMode })}
+              className={SELECT_CLASS}
+            >
+              <option value="raster">Images</option>
+              <option value="vector">Vector, selectable text</option>
+            </select>
+          </div>
+          {options.mode === "vector" && (
+            <p className="text-xs text-muted-foreground">
+              Pages that cannot be recolored are exported as images with the settings below.
+            </p>
+          )}
+
+          <div className="space-y-2">
+            <Label htmlFor="export-pages" className="text-sm text-foreground">Pages</Label>
+            <Input
+              id="export-pages"
+              value={options.pages}
+              onChange={(e) => update({ pages: e.target.value })}
+              placeholder={`1-${totalPages}`}
+              className="bg-input border-border text-foreground placeholder:text-muted-foreground"
+            />
+            {!pages && (
+              <p className="text-xs text-destructive">Enter pages between 1 and {totalPages}, e.g. 1-5, 9, 12-</p>
+            )}
+          </div>
+
+          <div className="grid grid-cols-2 gap-3">
+            <div className="space-y-2">
+              <Label htmlFor="export-dpi" className="text-sm text-muted-foreground">Resolution</Label>
+              <select
+                id="export-dpi"
+                value={options.dpi}
+                onChange={(e) => update({ dpi: Number(e.target.value) })}
+                className={`${SELECT_CLASS} w-full`}
+              >
+                {EXPORT_DPI_OPTIONS.map((dpi) => <option key={dpi} value={dpi}>{dpi} DPI</option>)}
+              </select>
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="export-format" className="text-sm text-muted-foreground">Format</Label>
+              <select
+                id="export-format"
+                value={options.format}
+                onChange={(e) => update({ format: e.target.value as ExportFormat })}
+                className={`${SELECT_CLASS} w-full`}
+              >
+                {EXPORT_FORMATS.map(({ key, label }) => <option key={key} value={key}>{label}</option>)}
+              </select>
+            </div>
+          </div>
+
+          <div className="space-y-2" style={{ opacity: format.lossy ? 1 : 0.5 }}>
+            <div className="flex items-center justify-between">
+              <Label className="text-sm text-muted-foreground">Quality</Label>
+              <span className="text-xs text-muted-foreground">{format.lossy ? `${options.quality}%` : "Lossless"}</span>
+            </div>
+            <Slider
+              value={[options.quality]}
+              onValueChange={(v) => update({ quality: v[0] })}
+              min={10}
+              max={100}
+              step={5}
+              disabled={!format.lossy}
+            />
+          </div>
+
+          <div className="flex items-center justify-between">
+            <Label htmlFor="export-grayscale" className="text-sm text-foreground">Grayscale</Label>
+            <Switch
+              id="export-grayscale"
+              checked={options.grayscale}
+              onCheckedChange={(checked) => update({ grayscale: checked })}
+            />
+          </div>
+
+          <div className="flex items-center justify-between gap-2">
+            <div>
+              <Label htmlFor="export-searchable" className="text-sm text-foreground">Searchable text</Label>
+              <p className="text-xs text-muted-foreground">Invisible text over image pages; scanned pages are read with OCR</p>
+            </div>
+            <Switch
+              id="export-searchable"
+              checked={options.searchableText}
+              onCheckedChange={(checked) => update({ searchableText: checked })}
+            />
+          </div>
+
+          <p className="flex items-center gap-2 text-xs text-muted-foreground">
+            Estimated size:
+            {isEstimating ? <Loader2 className="h-3 w-3 animate-spin" /> : <span className="text-foreground">{estimate !== null ? `~${formatFileSize(estimate)}` : "–"}</span>}
+          </p>
+        </div>
+
+        <DialogFooter>
+          <Button onClick={submit} disabled={!pages}>
+            Export {pages ? `${pages.length} ${pages.length === 1 ? "page" : "pages"}` : ""}
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
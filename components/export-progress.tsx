@@ -0,0 +1,50 @@
+"use client";
+
+import { Button } from "@/components/ui/button";
+import { AlertCircle, Loader2, X } from "lucide-react";
+
+interface ExportProgressProps {
+  // Pages finished and pages to export
+  done: number;
+  total: number;
+  // Estimated seconds left, once there is a finished page to estimate from
+  secondsLeft: number | null;
+  error: string | null;
+  onCancel: () => void;
+  onDismiss: () => void;
+}
+
+function formatDuration(seconds: number): string {
+  const rounded = Math.max(1, Math.round(seconds));
+  if (rounded < 60) return `${rounded}s`;
+  return `${Math.floor(rounded / 60)}m ${String(rounded % 60).padStart(2, "0")}s`;
+}
+
+// Progress of a running export, or the error that stopped it
+export function ExportProgress({ done, total, secondsLeft, error, onCancel, onDismiss }: ExportProgressProps) {
+  if (error) {
+    return (
+      <div className="flex items-center gap-2 border-b border-border bg-card px-2 sm:px-4 py-1.5">
+        <AlertCircle className="h-4 w-4 flex-shrink-0 text-destructive" />
+        <p className="min-w-0 flex-1 text-xs sm:text-sm text-destructive">{error}</p>
+        <Button variant="ghost" size="icon" onClick={onDismiss} title="Dismiss" className="h-8 w-8 flex-shrink-0"><X className="h-4 w-4" /></Button>
+      </div>
+    );
+  }
+
+  return (
+    <div className="flex items-center gap-2 border-b border-border bg-card px-2 sm:px-4 py-1.5">
+      <Loader2 className="h-4 w-4 flex-shrink-0 animate-spin text-primary" />
+      <div className="min-w-0 flex-1 space-y-1">
+        <p className="text-xs sm:text-sm text-muted-foreground">
+          Exporting page {Math.min(done + 1, total)} of {total}
+          {secondsLeft !== null && <> · about {formatDuration(secondsLeft)} left</>}
+        </p>
+        <div className="h-1 overflow-hidden rounded-full bg-muted">
+          <div className="h-full bg-primary transition-all" style={{ width: `${total > 0 ? (done / total) * 100 : 0}%` }} />
+        </div>
+      </div>
+      <Button variant="ghost" size="sm" onClick={onCancel} className="h-8 flex-shrink-0 text-xs">Cancel</Button>
+    </div>
+  );
+}
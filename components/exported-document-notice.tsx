@@ -0,0 +1,23 @@
+"use client";
+
+import { Button } from "@/components/ui/button";
+import { Moon, X } from "lucide-react";
+
+interface ExportedDocumentNoticeProps {
+  onKeepExported: () => void;
+  onDismiss: () => void;
+}
+
+// Shown when a file exported with filters is about to be filtered again
+export function ExportedDocumentNotice({ onKeepExported, onDismiss }: ExportedDocumentNoticeProps) {
+  return (
+    <div className="flex items-center gap-2 border-b border-border bg-card px-2 sm:px-4 py-1.5">
+      <Moon className="h-4 w-4 flex-shrink-0 text-primary" />
+      <p className="min-w-0 flex-1 text-xs sm:text-sm text-muted-foreground">
+        This file was exported with filters already applied, so filtering it again inverts those pages back.
+      </p>
+      <Button variant="ghost" size="sm" onClick={onKeepExported} className="h-8 flex-shrink-0 text-xs">Show as exported</Button>
+      <Button variant="ghost" size="icon" onClick={onDismiss} title="Dismiss" className="h-8 w-8 flex-shrink-0"><X className="h-4 w-4" /></Button>
+    </div>
+  );
+}
@@ -4,44 +4,47 @@ import { Label } from "@/components/ui/label";
 import { Slider } from "@/components/ui/slider";
 import { Switch } from "@/components/ui/switch";
 import { Button } from "@/components/ui/button";
-import { RotateCcw, Sparkles } from "lucide-react";
+import { Image, Palette, RotateCcw, Sparkles, Wand2, type LucideIcon } from "lucide-react";
+import {
+  ADJUSTMENTS,
+  DEFAULT_ADJUSTMENTS,
+  FILTER_MODES,
+  formatAdjustmentValue,
+  type FilterModeKey,
+  type FilterPreset,
+  type FilterSettings,
+} from "@/lib/filters";
+import { DARK_PAGE_MODES, PAGE_CLASSES, type DarkPageMode, type PageClass } from "@/lib/page-analysis";
+
+const MODE_ICONS: Record<Exclude<FilterModeKey, "darkMode">, LucideIcon> = {
+  smartDarkMode: Sparkles,
+  preserveImages: Image,
+  duotoneMode: Palette,
+  autoMode: Wand2,
+};
 
 interface FilterControlsProps {
-  darkMode: boolean;
-  setDarkMode: (value: boolean) => void;
-  smartDarkMode: boolean;
-  setSmartDarkMode: (value: boolean) => void;
-  inversion: number;
-  setInversion: (value: number) => void;
-  brightness: number;
-  setBrightness: (value: number) => void;
-  contrast: number;
-  setContrast: (value: number) => void;
-  sepia: number;
-  setSepia: (value: number) => void;
+  settings: FilterSettings;
+  onSettingsChange: (patch: Partial<FilterSettings>) => void;
+  // Presets that can be assigned to page classes in auto mode
+  presets: FilterPreset[];
+  // How pages that already look dark are treated; PDFs only
+  darkPageMode?: DarkPageMode;
+  onDarkPageModeChange?: (mode: DarkPageMode) => void;
 }
 
-export function FilterControls({
-  darkMode,
-  setDarkMode,
-  smartDarkMode,
-  setSmartDarkMode,
-  inversion,
-  setInversion,
-  brightness,
-  setBrightness,
-  contrast,
-  setContrast,
-  sepia,
-  setSepia,
-}: FilterControlsProps) {
-  const resetFilters = () => {
-    setInversion(90);
-    setBrightness(90);
-    setContrast(90);
-    setSepia(10);
+export function FilterControls({ settings, onSettingsChange, presets, darkPageMode, onDarkPageModeChange }: FilterControlsProps) {
+  const { darkMode, duotoneMode, paperColor, inkColor, autoMode, autoPresets, adjustments } = settings;
+
+  const setAutoPreset = (pageClass: PageClass, presetId: string) => {
+    const next = { ...autoPresets };
+    if (presetId) next[pageClass] = presetId;
+    else delete next[pageClass];
+    onSettingsChange({ autoPresets: next });
   };
 
+  const resetFilters = () => onSettingsChange({ adjustments: DEFAULT_ADJUSTMENTS });
+
   return (
     <div className="space-y-6">
       <div className="flex items-center justify-between">
@@ -64,85 +67,119 @@ export function FilterControls({
         <Switch
           id="dark-mode"
           checked={darkMode}
-          onCheckedChange={setDarkMode}
+          onCheckedChange={(checked) => onSettingsChange({ darkMode: checked })}
         />
       </div>
 
-      <div className="flex items-center justify-between">
-        <div className="flex items-center gap-2">
-          <Label htmlFor="smart-dark-mode" className="text-sm text-foreground">
-            Color Preserve Mode
-          </Label>
-          <Sparkles className="h-3 w-3 text-primary" />
+      {darkPageMode && onDarkPageModeChange && (
+        <div className="flex items-center justify-between gap-2" style={{ opacity: darkMode ? 1 : 0.5 }}>
+          <Label htmlFor="dark-page-mode" className="text-sm text-foreground">Dark pages</Label>
+          <select
+            id="dark-page-mode"
+            value={darkPageMode}
+            onChange={(e) => onDarkPageModeChange(e.target.value as DarkPageMode)}
+            disabled={!darkMode}
+            className="h-8 max-w-[150px] rounded border border-border bg-input px-1 text-xs text-foreground focus:outline-none focus:ring-1 focus:ring-primary"
+          >
+            {DARK_PAGE_MODES.map(({ key, label }) => <option key={key} value={key}>{label}</option>)}
+          </select>
         </div>
-        <Switch
-          id="smart-dark-mode"
-          checked={smartDarkMode}
-          onCheckedChange={setSmartDarkMode}
-          disabled={!darkMode}
-        />
-      </div>
+      )}
 
-      <div className="space-y-4 opacity-100 transition-opacity" style={{ opacity: darkMode ? 1 : 0.5 }}>
-        <div className="space-y-2">
-          <div className="flex items-center justify-between">
-            <Label className="text-sm text-muted-foreground">Inversion</Label>
-            <span className="text-xs text-muted-foreground">{inversion}%</span>
+      {FILTER_MODES.filter((mode) => mode.key !== "darkMode").map((mode) => {
+        const Icon = MODE_ICONS[mode.key as keyof typeof MODE_ICONS];
+        return (
+          <div key={mode.key} className="flex items-center justify-between">
+            <div className="flex items-center gap-2">
+              <Label htmlFor={mode.key} className="text-sm text-foreground">
+                {mode.label}
+              </Label>
+              <Icon className="h-3 w-3 text-primary" />
+            </div>
+            <Switch
+              id={mode.key}
+              checked={settings[mode.key]}
+              onCheckedChange={(checked) => onSettingsChange({ [mode.key]: checked })}
+              disabled={!darkMode}
+            />
           </div>
-          <Slider
-            value={[inversion]}
-            onValueChange={(v) => setInversion(v[0])}
-            min={0}
-            max={100}
-            step={1}
-            disabled={!darkMode}
-          />
-        </div>
+        );
+      })}
 
-        <div className="space-y-2">
-          <div className="flex items-center justify-between">
-            <Label className="text-sm text-muted-foreground">Brightness</Label>
-            <span className="text-xs text-muted-foreground">{brightness}%</span>
+      {duotoneMode && (
+        <div className="grid grid-cols-2 gap-3" style={{ opacity: darkMode ? 1 : 0.5 }}>
+          <div className="space-y-2">
+            <Label htmlFor="paper-color" className="text-sm text-muted-foreground">Paper</Label>
+            <div className="flex items-center gap-2">
+              <input
+                id="paper-color"
+                type="color"
+                value={paperColor}
+                onChange={(e) => onSettingsChange({ paperColor: e.target.value })}
+                disabled={!darkMode}
+                className="h-8 w-10 cursor-pointer rounded border border-border bg-transparent"
+              />
+              <span className="font-mono text-xs text-muted-foreground">{paperColor}</span>
+            </div>
+          </div>
+          <div className="space-y-2">
+            <Label htmlFor="ink-color" className="text-sm text-muted-foreground">Ink</Label>
+            <div className="flex items-center gap-2">
+              <input
+                id="ink-color"
+                type="color"
+                value={inkColor}
+                onChange={(e) => onSettingsChange({ inkColor: e.target.value })}
+                disabled={!darkMode}
+                className="h-8 w-10 cursor-pointer rounded border border-border bg-transparent"
+              />
+              <span className="font-mono text-xs text-muted-foreground">{inkColor}</span>
+            </div>
           </div>
-          <Slider
-            value={[brightness]}
-            onValueChange={(v) => setBrightness(v[0])}
-            min={0}
-            max={300}
-            step={1}
-            disabled={!darkMode}
-          />
         </div>
+      )}
 
-        <div className="space-y-2">
-          <div className="flex items-center justify-between">
-            <Label className="text-sm text-muted-foreground">Contrast</Label>
-            <span className="text-xs text-muted-foreground">{contrast}%</span>
-          </div>
-          <Slider
-            value={[contrast]}
-            onValueChange={(v) => setContrast(v[0])}
-            min={0}
-            max={300}
-            step={1}
-            disabled={!darkMode}
-          />
+      {autoMode && (
+        <div className="space-y-2" style={{ opacity: darkMode ? 1 : 0.5 }}>
+          <p className="text-xs text-muted-foreground">
+            Each page is analyzed and filtered as text, a scan or photos. Text pages use the sliders below.
+          </p>
+          {PAGE_CLASSES.map(({ key, label }) => (
+            <div key={key} className="flex items-center justify-between gap-2">
+              <Label htmlFor={`auto-${key}`} className="text-sm text-muted-foreground">{label} pages</Label>
+              <select
+                id={`auto-${key}`}
+                value={autoPresets[key] ?? ""}
+                onChange={(e) => setAutoPreset(key, e.target.value)}
+                disabled={!darkMode}
+                className="h-8 max-w-[150px] rounded border border-border bg-input px-1 text-xs text-foreground focus:outline-none focus:ring-1 focus:ring-primary"
+              >
+                <option value="">{key === "text" ? "Sliders" : "Built-in"}</option>
+                {presets.map((preset) => <option key={preset.id} value={preset.id}>{preset.name}</option>)}
+              </select>
+            </div>
+          ))}
         </div>
+      )}
 
-        <div className="space-y-2">
-          <div className="flex items-center justify-between">
-            <Label className="text-sm text-muted-foreground">Sepia</Label>
-            <span className="text-xs text-muted-foreground">{sepia}%</span>
+      {/* Duotone maps luminance straight to the two colors, so the sliders don't apply */}
+      <div className="space-y-4 opacity-100 transition-opacity" style={{ opacity: darkMode && !duotoneMode ? 1 : 0.5 }}>
+        {ADJUSTMENTS.map((def) => (
+          <div key={def.key} className="space-y-2">
+            <div className="flex items-center justify-between">
+              <Label className="text-sm text-muted-foreground">{def.label}</Label>
+              <span className="text-xs text-muted-foreground">{formatAdjustmentValue(def, adjustments[def.key])}</span>
+            </div>
+            <Slider
+              value={[adjustments[def.key]]}
+              onValueChange={(v) => onSettingsChange({ adjustments: { ...adjustments, [def.key]: v[0] } })}
+              min={def.min}
+              max={def.max}
+              step={def.step}
+              disabled={!darkMode || duotoneMode}
+            />
           </div>
-          <Slider
-            value={[sepia]}
-            onValueChange={(v) => setSepia(v[0])}
-            min={0}
-            max={100}
-            step={1}
-            disabled={!darkMode}
-          />
-        </div>
+        ))}
       </div>
 
       <div className="rounded-md border border-border bg-muted/50 p-3">
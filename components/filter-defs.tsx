@@ -0,0 +1,44 @@
+"use client";
+
+import { DUOTONE_FILTER_ID, getDuotoneMatrix } from "@/lib/duotone";
+import { getTransferFilters, type ChannelTransfer, type FilterSettings } from "@/lib/filters";
+
+interface FilterDefsProps {
+  // Every filter configuration in use, e.g. the global settings plus auto mode's per-page ones
+  settings: FilterSettings[];
+}
+
+function TransferFunctions({ transfer }: { transfer: ChannelTransfer }) {
+  const attrs = (fn: ChannelTransfer["r"]) =>
+    fn.type === "gamma" ? { type: "gamma", amplitude: 1, exponent: fn.exponent, offset: 0 } : { type: "linear", slope: fn.slope, intercept: 0 };
+  return (
+    <feComponentTransfer>
+      <feFuncR {...attrs(transfer.r)} />
+      <feFuncG {...attrs(transfer.g)} />
+      <feFuncB {...attrs(transfer.b)} />
+    </feComponentTransfer>
+  );
+}
+
+// SVG filters referenced from the CSS filter string as url(#...); sRGB so they match the pixel implementation
+export function FilterDefs({ settings }: FilterDefsProps) {
+  const active = settings.filter((s) => s.darkMode);
+  const duotone = active.find((s) => s.duotoneMode);
+  const transfers = new Map(active.flatMap(getTransferFilters).map((filter) => [filter.id, filter.transfer]));
+  if (!duotone && transfers.size === 0) return null;
+
+  return (
+    <svg aria-hidden="true" className="pointer-events-none absolute h-0 w-0">
+      {duotone && (
+        <filter id={DUOTONE_FILTER_ID} colorInterpolationFilters="sRGB">
+          <feColorMatrix type="matrix" values={getDuotoneMatrix(duotone.paperColor, duotone.inkColor)} />
+        </filter>
+      )}
+      {[...transfers].map(([id, transfer]) => (
+        <filter key={id} id={id} colorInterpolationFilters="sRGB">
+          <TransferFunctions transfer={transfer} />
+        </filter>
+      ))}
+    </svg>
+  );
+}
@@ -0,0 +1,92 @@
+"use client";
+
+import { useEffect, useRef } from "react";
+import { Button } from "@/components/ui/button";
+import { ChevronUp, ChevronDown, X, CaseSensitive, WholeWord, Regex, Loader2 } from "lucide-react";
+import type { SearchOptions } from "@/lib/pdf-text";
+
+interface FindBarProps {
+  query: string;
+  onQueryChange: (query: string) => void;
+  options: SearchOptions;
+  onOptionsChange: (options: SearchOptions) => void;
+  matchCount: number;
+  activeIndex: number;
+  isSearching: boolean;
+  error: string | null;
+  focusToken: number;
+  onNext: () => void;
+  onPrevious: () => void;
+  onClose: () => void;
+}
+
+export function FindBar({
+  query,
+  onQueryChange,
+  options,
+  onOptionsChange,
+  matchCount,
+  activeIndex,
+  isSearching,
+  error,
+  focusToken,
+  onNext,
+  onPrevious,
+  onClose,
+}: FindBarProps) {
+  const inputRef = useRef<HTMLInputElement>(null);
+
+  // Re-focus and select the query each time the find bar is requested (e.g. pressing Ctrl+F again)
+  useEffect(() => {
+    // Defer so focus isn't restored elsewhere by a closing dialog (e.g. the command palette)
+    const timeoutId = setTimeout(() => {
+      inputRef.current?.focus();
+      inputRef.current?.select();
+    }, 0);
+    return () => clearTimeout(timeoutId);
+  }, [focusToken]);
+
+  const handleKeyDown = (e: React.KeyboardEvent) => {
+    if (e.key === "Enter") {
+      e.preventDefault();
+      if (e.shiftKey) onPrevious();
+      else onNext();
+    } else if (e.key === "Escape") {
+      onClose();
+    }
+  };
+
+  const toggle = (key: keyof SearchOptions) => onOptionsChange({ ...options, [key]: !options[key] });
+
+  const status = error
+    ? error
+    : isSearching
+      ? null
+      : query
+        ? matchCount > 0 ? `${activeIndex + 1} / ${matchCount}` : "No results"
+        : "";
+
+  return (
+    <div className="flex items-center gap-1 sm:gap-2 border-b border-border bg-card px-2 sm:px-4 py-1.5">
+      <input
+        ref={inputRef}
+        type="text"
+        value={query}
+        onChange={(e) => onQueryChange(e.target.value)}
+        onKeyDown={handleKeyDown}
+        placeholder="Find in document"
+        className="min-w-0 flex-1 rounded border border-border bg-input px-2 py-1 text-sm text-foreground placeholder:text-muted-foreground focus:outline-none focus:ring-1 focus:ring-primary"
+      />
+      <span className={`min-w-[70px] text-center text-xs ${error ? "text-destructive" : "text-muted-foreground"}`}>
+        {isSearching && !error ? <Loader2 className="mx-auto h-3 w-3 animate-spin" /> : status}
+      </span>
+      <Button variant="ghost" size="icon" onClick={() => toggle("caseSensitive")} title="Match case" className={`h-8 w-8 flex-shrink-0 ${options.caseSensitive ? "bg-accent" : ""}`}><CaseSensitive className="h-4 w-4" /></Button>
+      <Button variant="ghost" size="icon" onClick={() => toggle("wholeWord")} title="Whole word" className={`h-8 w-8 flex-shrink-0 ${options.wholeWord ? "bg-accent" : ""}`}><WholeWord className="h-4 w-4" /></Button>
+      <Button variant="ghost" size="icon" onClick={() => toggle("regex")} title="Regular expression" className={`h-8 w-8 flex-shrink-0 ${options.regex ? "bg-accent" : ""}`}><Regex className="h-4 w-4" /></Button>
+      <div className="mx-1 h-4 w-px bg-border" />
+      <Button variant="ghost" size="icon" onClick={onPrevious} disabled={matchCount === 0} title="Previous match (Shift+Enter)" className="h-8 w-8 flex-shrink-0"><ChevronUp className="h-4 w-4" /></Button>
+      <Button variant="ghost" size="icon" onClick={onNext} disabled={matchCount === 0} title="Next match (Enter)" className="h-8 w-8 flex-shrink-0"><ChevronDown className="h-4 w-4" /></Button>
+      <Button variant="ghost" size="icon" onClick={onClose} title="Close (Esc)" className="h-8 w-8 flex-shrink-0"><X className="h-4 w-4" /></Button>
+    </div>
+  );
+}
@@ -0,0 +1,85 @@
+"use client";
+
+import { useEffect, useRef, useState } from "react";
+import { getImageBounds, getImageRects, getPageImageBoxes, type ImageRect } from "@/lib/pdf-images";
+import { getBackdropPixelRatio } from "@/lib/tiles";
+
+interface ImageLayerProps {
+  pdfDoc: any;
+  pageNum: number;
+  scale: number;
+  rotation: number;
+  dpr: number;
+  // Whether to include the page's embedded images ("invert text only" mode)
+  images: boolean;
+  // Exclusion regions drawn by the user, as boxes in PDF user space
+  regions: number[][];
+}
+
+interface ImageLayout {
+  bounds: ImageRect;
+  clipPath: string;
+}
+
+// Unfiltered copy of a page's embedded images and exclusion regions, laid over the filtered canvas
+export function ImageLayer({ pdfDoc, pageNum, scale, rotation, dpr, images, regions }: ImageLayerProps) {
+  const canvasRef = useRef<HTMLCanvasElement>(null);
+  const [layout, setLayout] = useState<ImageLayout | null>(null);
+
+  useEffect(() => {
+    let cancelled = false;
+    let renderTask: any = null;
+    const renderImages = async () => {
+      try {
+        const [page, boxes] = await Promise.all([pdfDoc.getPage(pageNum), images ? getPageImageBoxes(pdfDoc, pageNum) : []]);
+        const canvas = canvasRef.current;
+        const context = canvas?.getContext("2d");
+        if (cancelled || !canvas || !context) return;
+        const viewport = page.getViewport({ scale, rotation });
+        const rects = getImageRects([...boxes, ...regions], viewport);
+        if (rects.length === 0) {
+          setLayout(null);
+          return;
+        }
+
+        // One render covering all images, clipped back to the individual image rectangles
+        const bounds = getImageBounds(rects);
+        const pixelRatio = getBackdropPixelRatio(bounds.width, bounds.height, dpr);
+        canvas.width = Math.ceil(bounds.width * pixelRatio);
+        canvas.height = Math.ceil(bounds.height * pixelRatio);
+        renderTask = page.render({
+          canvasContext: context,
+          viewport,
+          transform: [pixelRatio, 0, 0, pixelRatio, -bounds.x * pixelRatio, -bounds.y * pixelRatio],
+        });
+        await renderTask.promise;
+        if (cancelled) return;
+        const path = rects
+          .map((r) => `M${r.x - bounds.x} ${r.y - bounds.y}h${r.width}v${r.height}h${-r.width}Z`)
+          .join("");
+        setLayout({ bounds, clipPath: `path("${path}")` });
+      } catch (err: any) {
+        if (err?.name !== 'RenderingCancelledException') console.error("Error rendering page images:", err);
+      }
+    };
+    renderImages();
+    return () => {
+      cancelled = true;
+      renderTask?.cancel();
+    };
+  }, [pdfDoc, pageNum, scale, rotation, dpr, images, regions]);
+
+  return (
+    <canvas
+      ref={canvasRef}
+      className={`pointer-events-none absolute ${layout ? "" : "hidden"}`}
+      style={layout ? {
+        left: layout.bounds.x,
+        top: layout.bounds.y,
+        width: layout.bounds.width,
+        height: layout.bounds.height,
+        clipPath: layout.clipPath,
+      } : undefined}
+    />
+  );
+}
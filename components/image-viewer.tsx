@@ -2,6 +2,8 @@
 
 import { useEffect, useRef, useState, useCallback } from "react";
 import { Button } from "@/components/ui/button";
+import { FilterDefs } from "@/components/filter-defs";
+import { applyFilterSettings, getFilterStyle, type FilterSettings } from "@/lib/filters";
 import {
   ZoomIn,
   ZoomOut,
@@ -15,12 +17,7 @@ import {
 interface ImageViewerProps {
   imageSource: string | ArrayBuffer;
   fileName: string | null;
-  darkMode: boolean;
-  smartDarkMode: boolean;
-  inversion: number;
-  brightness: number;
-  contrast: number;
-  sepia: number;
+  filters: FilterSettings;
   isZenMode?: boolean;
   stretchMode?: boolean;
 }
@@ -28,12 +25,7 @@ interface ImageViewerProps {
 export function ImageViewer({
   imageSource,
   fileName,
-  darkMode,
-  smartDarkMode,
-  inversion,
-  brightness,
-  contrast,
-  sepia,
+  filters,
   isZenMode = false,
   stretchMode = false,
 }: ImageViewerProps) {
@@ -228,16 +220,6 @@ export function ImageViewer({
   const zoomToFitHeight = () => { setFitMode('height'); setScale(calculateFitScale('height')); };
   const rotate = () => setRotation((prev) => (prev + 90) % 360);
 
-  const getFilterStyle = (): React.CSSProperties => {
-    if (!darkMode) return {};
-    if (smartDarkMode) {
-      // Color preserve mode: invert + hue-rotate(180deg) preserves original hues
-      // Then apply brightness/contrast/sepia adjustments
-      return { filter: `invert(${inversion}%) hue-rotate(180deg) saturate(1.1) brightness(${brightness}%) contrast(${contrast}%) sepia(${sepia}%)` };
-    }
-    return { filter: `invert(${inversion}%) brightness(${brightness}%) contrast(${contrast}%) sepia(${sepia}%)` };
-  };
-
   const exportImage = async () => {
     if (!imageUrl || isExporting) return;
     setIsExporting(true);
@@ -262,10 +244,9 @@ export function ImageViewer({
       ctx.drawImage(img, 0, 0);
       
       // Apply filters if dark mode is on
-      if (darkMode) {
+      if (filters.darkMode) {
         const imageData = ctx.getImageData(0, 0, canvas.width, canvas.height);
-        applyFilters(imageData, inversion, brightness, contrast, sepia, smartDarkMode);
-        ctx.putImageData(imageData, 0, 0);
+        ctx.putImageData(applyFilterSettings(imageData, filters), 0, 0);
       }
       
       // Determine output format and extension
@@ -289,83 +270,6 @@ export function ImageViewer({
     }
   };
 
-  const applyFilters = (imageData: ImageData, invert: number, bright: number, contr: number, sep: number, smart: boolean) => {
-    const data = imageData.data;
-    const invertRatio = invert / 100;
-    const brightnessRatio = bright / 100;
-    const contrastFactor = (contr / 100 - 0.5) * 2;
-    const sepiaRatio = sep / 100;
-
-    for (let i = 0; i < data.length; i += 4) {
-      let r = data[i], g = data[i + 1], b = data[i + 2];
-      
-      // Invert
-      r = r + (255 - 2 * r) * invertRatio;
-      g = g + (255 - 2 * g) * invertRatio;
-      b = b + (255 - 2 * b) * invertRatio;
-
-      // For color preserve mode, apply hue rotation (180 degrees) to preserve hues
-      if (smart) {
-        const max = Math.max(r, g, b) / 255;
-        const min = Math.min(r, g, b) / 255;
-        const l = (max + min) / 2;
-        
-        if (max !== min) {
-          const d = max - min;
-          const s = l > 0.5 ? d / (2 - max - min) : d / (max + min);
-          let h = 0;
-          const rn = r / 255, gn = g / 255, bn = b / 255;
-          if (max === rn) h = ((gn - bn) / d + (gn < bn ? 6 : 0)) / 6;
-          else if (max === gn) h = ((bn - rn) / d + 2) / 6;
-          else h = ((rn - gn) / d + 4) / 6;
-          
-          h = (h + 0.5) % 1;
-          
-          const hue2rgb = (p: number, q: number, t: number) => {
-            if (t < 0) t += 1;
-            if (t > 1) t -= 1;
-            if (t < 1/6) return p + (q - p) * 6 * t;
-            if (t < 1/2) return q;
-            if (t < 2/3) return p + (q - p) * (2/3 - t) * 6;
-            return p;
-          };
-          
-          const q = l < 0.5 ? l * (1 + s) : l + s - l * s;
-          const p = 2 * l - q;
-          r = hue2rgb(p, q, h + 1/3) * 255;
-          g = hue2rgb(p, q, h) * 255;
-          b = hue2rgb(p, q, h - 1/3) * 255;
-        }
-        
-        // Slight saturation boost for color preserve mode
-        const avg = (r + g + b) / 3;
-        r = avg + (r - avg) * 1.1;
-        g = avg + (g - avg) * 1.1;
-        b = avg + (b - avg) * 1.1;
-      }
-
-      // Apply brightness, contrast, sepia (both modes)
-      r *= brightnessRatio;
-      g *= brightnessRatio;
-      b *= brightnessRatio;
-
-      r = ((r / 255 - 0.5) * (1 + contrastFactor) + 0.5) * 255;
-      g = ((g / 255 - 0.5) * (1 + contrastFactor) + 0.5) * 255;
-      b = ((b / 255 - 0.5) * (1 + contrastFactor) + 0.5) * 255;
-
-      const sr = r * 0.393 + g * 0.769 + b * 0.189;
-      const sg = r * 0.349 + g * 0.686 + b * 0.168;
-      const sb = r * 0.272 + g * 0.534 + b * 0.131;
-      r = r + (sr - r) * sepiaRatio;
-      g = g + (sg - g) * sepiaRatio;
-      b = b + (sb - b) * sepiaRatio;
-
-      data[i] = Math.max(0, Math.min(255, r));
-      data[i + 1] = Math.max(0, Math.min(255, g));
-      data[i + 2] = Math.max(0, Math.min(255, b));
-    }
-  };
-
   if (!imageUrl) {
     return (
       <div className="flex h-full items-center justify-center">
@@ -378,6 +282,7 @@ export function ImageViewer({
 
   return (
     <div className="flex h-full flex-col">
+      <FilterDefs settings={[filters]} />
       {/* Toolbar */}
       <div className={`flex items-center justify-between border-b border-border bg-card px-2 sm:px-4 py-2 transition-all duration-300 ${toolbarHidden ? "opacity-0 pointer-events-none h-0 py-0 border-0 overflow-hidden" : "opacity-100"}`}>
         <div className="flex items-center gap-2">
@@ -419,7 +324,7 @@ export function ImageViewer({
             alt={fileName || "Image"}
             onLoad={handleImageLoad}
             style={{
-              ...getFilterStyle(),
+              ...getFilterStyle(filters),
               width: imageSize.width ? imageSize.width * scale : 'auto',
               height: imageSize.height ? imageSize.height * scale : 'auto',
               transform: `rotate(${rotation}deg)`,
@@ -0,0 +1,156 @@
+"use client";
+
+import { useEffect, useRef, useState } from "react";
+import { ChevronRight, ExternalLink, Loader2 } from "lucide-react";
+import { findCurrentOutlineNode, loadOutline, type OutlineNode } from "@/lib/pdf-navigation";
+
+interface OutlinePanelProps {
+  pdfDoc: any;
+  currentPage: number;
+  onNavigate: (pageNum: number) => void;
+}
+
+interface OutlineItemProps {
+  node: OutlineNode;
+  depth: number;
+  currentId: string | null;
+  expanded: Set<string>;
+  onToggle: (id: string) => void;
+  onNavigate: (pageNum: number) => void;
+}
+
+function OutlineItem({ node, depth, currentId, expanded, onToggle, onNavigate }: OutlineItemProps) {
+  const isExpanded = expanded.has(node.id);
+  const isCurrent = node.id === currentId;
+  const itemRef = useRef<HTMLDivElement>(null);
+
+  // Keep the highlighted entry visible while reading
+  useEffect(() => {
+    if (isCurrent) itemRef.current?.scrollIntoView({ block: "nearest" });
+  }, [isCurrent]);
+
+  const handleClick = () => {
+    if (node.url) {
+      window.open(node.url, "_blank", "noopener,noreferrer");
+    } else if (node.pageNum) {
+      onNavigate(node.pageNum);
+    } else if (node.items.length > 0) {
+      onToggle(node.id);
+    }
+  };
+
+  return (
+    <div>
+      <div
+        ref={itemRef}
+        className={`flex items-center gap-1 rounded px-1 py-1 text-sm transition-colors ${isCurrent ? "bg-accent text-foreground" : "text-muted-foreground hover:bg-muted hover:text-foreground"}`}
+        style={{ paddingLeft: depth * 12 + 4 }}
+      >
+        {node.items.length > 0 ? (
+          <button onClick={() => onToggle(node.id)} className="flex-shrink-0 p-0.5" title={isExpanded ? "Collapse" : "Expand"}>
+            <ChevronRight className={`h-3 w-3 transition-transform duration-200 ${isExpanded ? "rotate-90" : ""}`} />
+          </button>
+        ) : (
+          <span className="w-4 flex-shrink-0" />
+        )}
+        <button onClick={handleClick} className="flex min-w-0 flex-1 items-center gap-1 text-left" title={node.title}>
+          <span className="truncate">{node.title}</span>
+          {node.url && <ExternalLink className="h-3 w-3 flex-shrink-0" />}
+        </button>
+        {node.pageNum && <span className="flex-shrink-0 text-xs text-muted-foreground">{node.pageNum}</span>}
+      </div>
+      {isExpanded && node.items.map((child) => (
+        <OutlineItem
+          key={child.id}
+          node={child}
+          depth={depth + 1}
+          currentId={currentId}
+          expanded={expanded}
+          onToggle={onToggle}
+          onNavigate={onNavigate}
+        />
+      ))}
+    </div>
+  );
+}
+
+// Collect ids of the entries on the path to `targetId` so it can be revealed
+function getAncestorIds(nodes: OutlineNode[], targetId: string, path: string[] = []): string[] | null {
+  for (const node of nodes) {
+    if (node.id === targetId) return path;
+    const found = getAncestorIds(node.items, targetId, [...path, node.id]);
+    if (found) return found;
+  }
+  return null;
+}
+
+export function OutlinePanel({ pdfDoc, currentPage, onNavigate }: OutlinePanelProps) {
+  const [outline, setOutline] = useState<OutlineNode[] | null>(null);
+  const [expanded, setExpanded] = useState<Set<string>>(new Set());
+
+  useEffect(() => {
+    let cancelled = false;
+    setOutline(null);
+    loadOutline(pdfDoc)
+      .then((nodes) => {
+        if (cancelled) return;
+        const open = new Set<string>();
+        const collectOpen = (list: OutlineNode[]) => list.forEach((node) => {
+          if (node.defaultOpen) open.add(node.id);
+          collectOpen(node.items);
+        });
+        collectOpen(nodes);
+        setExpanded(open);
+        setOutline(nodes);
+      })
+      .catch((err) => {
+        console.error("Error loading outline:", err);
+        if (!cancelled) setOutline([]);
+      });
+    return () => { cancelled = true; };
+  }, [pdfDoc]);
+
+  const currentNode = outline ? findCurrentOutlineNode(outline, currentPage) : null;
+  const currentId = currentNode?.id ?? null;
+
+  // Expand the branch containing the current entry as you read into it
+  useEffect(() => {
+    if (!outline || !currentId) return;
+    const ancestors = getAncestorIds(outline, currentId);
+    if (!ancestors || ancestors.length === 0) return;
+    setExpanded((prev) => ancestors.every((id) => prev.has(id)) ? prev : new Set([...prev, ...ancestors]));
+  }, [outline, currentId]);
+
+  const handleToggle = (id: string) => {
+    setExpanded((prev) => {
+      const next = new Set(prev);
+      if (next.has(id)) next.delete(id);
+      else next.add(id);
+      return next;
+    });
+  };
+
+  if (!outline) {
+    return <div className="flex justify-center p-4"><Loader2 className="h-5 w-5 animate-spin text-muted-foreground" /></div>;
+  }
+
+  if (outline.length === 0) {
+    return <p className="p-4 text-xs text-muted-foreground">This document has no outline.</p>;
+  }
+
+  return (
+    <div className="space-y-0.5 p-2">
+      {outline.map((node) => (
+        <OutlineItem
+          key={node.id}
+          node={node}
+          depth={0}
+          currentId={currentId}
+          expanded={expanded}
+          onToggle={handleToggle}
+          onNavigate={onNavigate}
+        />
+      ))}
+    </div>
+  );
+}
@@ -0,0 +1,123 @@
+"use client";
+
+import { useState } from "react";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Slider } from "@/components/ui/slider";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import { ADJUSTMENTS, formatAdjustmentValue, type AdjustmentKey } from "@/lib/filters";
+import { parsePageRanges } from "@/lib/page-ranges";
+
+interface PageFiltersDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  totalPages: number;
+  currentPage: number;
+  // Adjustments the current page is shown with, as the starting point for the override
+  initialAdjustments: Record<AdjustmentKey, number>;
+  // Only the sliders moved away from initialAdjustments
+  onApply: (pages: number[], adjustments: Partial<Record<AdjustmentKey, number>>) => void;
+  onClear: (pages: number[]) => void;
+}
+
+// Override the filter sliders for a page or page ranges
+export function PageFiltersDialog({
+  open,
+  onOpenChange,
+  totalPages,
+  currentPage,
+  initialAdjustments,
+  onApply,
+  onClear,
+}: PageFiltersDialogProps) {
+  const [range, setRange] = useState("");
+  const [baseline, setBaseline] = useState(initialAdjustments);
+  const [adjustments, setAdjustments] = useState(initialAdjustments);
+  const [wasOpen, setWasOpen] = useState(false);
+
+  // Start from the current page each time the dialog opens
+  if (open !== wasOpen) {
+    setWasOpen(open);
+    if (open) {
+      setRange(String(currentPage));
+      setBaseline(initialAdjustments);
+      setAdjustments(initialAdjustments);
+    }
+  }
+
+  const pages = parsePageRanges(range, totalPages);
+
+  const apply = () => {
+    if (!pages) return;
+    const changed = Object.fromEntries(
+      ADJUSTMENTS.filter(({ key }) => adjustments[key] !== baseline[key]).map(({ key }) => [key, adjustments[key]])
+    );
+    onApply(pages, changed);
+    onOpenChange(false);
+  };
+
+  const clear = () => {
+    if (!pages) return;
+    onClear(pages);
+    onOpenChange(false);
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="max-w-md bg-card">
+        <DialogHeader>
+          <DialogTitle className="text-foreground">Page Filters</DialogTitle>
+          <DialogDescription className="text-muted-foreground">
+            Use different filter settings on some pages. Other pages keep the global settings.
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="space-y-2">
+          <Label htmlFor="page-filter-range" className="text-sm text-foreground">Pages</Label>
+          <Input
+            id="page-filter-range"
+            value={range}
+            onChange={(e) => setRange(e.target.value)}
+            onKeyDown={(e) => e.key === "Enter" && apply()}
+            placeholder="e.g. 1-5, 9, 12-"
+            className="bg-input border-border text-foreground placeholder:text-muted-foreground"
+          />
+          {!pages && range.trim() && (
+            <p className="text-xs text-destructive">Enter pages between 1 and {totalPages}, e.g. 1-5, 9, 12-</p>
+          )}
+        </div>
+
+        <div className="max-h-[45vh] space-y-4 overflow-y-auto pr-1">
+          {ADJUSTMENTS.map((def) => (
+            <div key={def.key} className="space-y-2">
+              <div className="flex items-center justify-between">
+                <Label className="text-sm text-muted-foreground">{def.label}</Label>
+                <span className="text-xs text-muted-foreground">{formatAdjustmentValue(def, adjustments[def.key])}</span>
+              </div>
+              <Slider
+                value={[adjustments[def.key]]}
+                onValueChange={(v) => setAdjustments((prev) => ({ ...prev, [def.key]: v[0] }))}
+                min={def.min}
+                max={def.max}
+                step={def.step}
+              />
+            </div>
+          ))}
+        </div>
+
+        <DialogFooter className="gap-2">
+          <Button variant="ghost" onClick={clear} disabled={!pages}>Clear overrides</Button>
+          <Button onClick={apply} disabled={!pages}>Apply to pages</Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -1,15 +1,97 @@
 "use client";
 
-import { useEffect, useRef, useState, useCallback } from "react";
+import { useEffect, useLayoutEffect, useRef, useState, useCallback, useMemo } from "react";
 import { Button } from "@/components/ui/button";
 import { OCROverlay } from "@/components/ocr-overlay";
+import { TextLayer, type TextHighlight } from "@/components/text-layer";
+import { TileLayer } from "@/components/tile-layer";
+import { ImageLayer } from "@/components/image-layer";
+import { RegionEditor } from "@/components/region-editor";
+import { FilterDefs } from "@/components/filter-defs";
+import { DarkDocumentNotice } from "@/components/dark-document-notice";
+import { ExportedDocumentNotice } from "@/components/exported-document-notice";
+import { PageFiltersDialog } from "@/components/page-filters-dialog";
+import { ExportDialog } from "@/components/export-dialog";
+import { ExportProgress } from "@/components/export-progress";
+import { FindBar } from "@/components/find-bar";
+import { OutlinePanel } from "@/components/outline-panel";
+import { ThumbnailRail } from "@/components/thumbnail-rail";
 import { useOCR } from "@/hooks/use-ocr";
+import { useDevicePixelRatio } from "@/hooks/use-device-pixel-ratio";
+import { usePdfSearch } from "@/hooks/use-pdf-search";
+import { useThumbnails } from "@/hooks/use-thumbnails";
+import { useRenderCache, type PageHandle } from "@/hooks/use-render-cache";
+import { extractLinks, loadOutline, type LinkAnnotation } from "@/lib/pdf-navigation";
+import {
+  DEFAULT_MAX_RENDERED_PAGES,
+  SCROLL_ROW_GAP,
+  computeRowLayout,
+  findRowAt,
+  getDisplaySize,
+  getRowAnchor,
+  getRowAnchorOffset,
+  loadPageSizes,
+  type PageSize,
+  type RowAnchor,
+  type RowLayout,
+} from "@/lib/page-layout";
+import { SPREAD_GAP, formatSpreadLabel, getDirectionalStep, getSpreadIndex, getSpreads, type ReadingDirection } from "@/lib/spreads";
+import { getBackdropPixelRatio } from "@/lib/tiles";
+import { getImageRects, getPageImageBoxes } from "@/lib/pdf-images";
+import type { ExclusionRegion } from "@/lib/exclusion-regions";
+import type { VectorPage } from "@/lib/vector-export";
+import { createExportWorker, type ExportWorker } from "@/lib/export-worker-client";
+import { addJsPDFTextLayer, getPageExportText, loadExportFont, ocrWordsToExportText } from "@/lib/export-text";
+import {
+  addJsPDFDocumentInfo,
+  addJsPDFLinks,
+  addJsPDFOutline,
+  readExportedFilters,
+  type ExportedFilters,
+} from "@/lib/export-metadata";
+import {
+  DEFAULT_EXPORT_OPTIONS,
+  getExportFormat,
+  getExportScale,
+  withGrayscale,
+  type ExportOptions,
+} from "@/lib/export-options";
+import type { Rgb } from "@/lib/color-matrix";
+import {
+  getAutoPageSettings,
+  getColorTransform,
+  getFilterStyle,
+  type AdjustmentKey,
+  type FilterPreset,
+  type FilterSettings,
+} from "@/lib/filters";
+import {
+  DETECTION_SAMPLE_PAGES,
+  PAGE_CLASSES,
+  classifyPage,
+  getPageAnalysis,
+  isDarkLuminance,
+  shouldInvertPage,
+  type DarkPageMode,
+  type PageAnalysis,
+  type PageClass,
+} from "@/lib/page-analysis";
+import {
+  captureZoomAnchor,
+  clampScale,
+  getGestureTransform,
+  getWheelZoomFactor,
+  restoreZoomAnchor,
+  type ZoomAnchor,
+  type ZoomGesture,
+} from "@/lib/zoom";
 import {
   ChevronLeft,
   ChevronRight,
   ZoomIn,
   ZoomOut,
   RotateCw,
+  RotateCwSquare,
   Loader2,
   Download,
   MoveHorizontal,
@@ -17,6 +99,15 @@ import {
   ScanText,
   Rows3,
   Square,
+  Search,
+  ListTree,
+  GalleryVertical,
+  BookOpen,
+  Book,
+  ArrowLeftRight,
+  SunMoon,
+  SlidersHorizontal,
+  SquareDashedMousePointer,
 } from "lucide-react";
 
 const PDFJS_VERSION = "4.4.168";
@@ -25,27 +116,69 @@ const PDFJS_CDN = `https://cdnjs.cloudflare.com/ajax/libs/pdf.js/${PDFJS_VERSION
 interface PDFViewerInnerProps {
   pdfSource: string | ArrayBuffer | null;
   pdfFileName: string | null;
-  darkMode: boolean;
-  smartDarkMode: boolean;
-  inversion: number;
-  brightness: number;
-  contrast: number;
-  sepia: number;
+  filters: FilterSettings;
+  // Presets that auto mode may assign to page classes
+  presets?: FilterPreset[];
   isZenMode?: boolean;
   initialPage?: number;
   initialScale?: number | null;
   scrollMode?: boolean;
+  // Most pages kept rasterized at once in scroll mode; pages farthest from the current one are released first
+  maxRenderedPages?: number;
+  readingDirection?: ReadingDirection;
+  pageRotations?: Record<number, number>;
+  // How pages that already have a dark background are treated, and per-page overrides (true = filter the page)
+  darkPageMode?: DarkPageMode;
+  pageInversion?: Record<number, boolean>;
+  // Page classes chosen by hand for auto mode, overriding the detected ones
+  pageClasses?: Record<number, PageClass>;
+  // Filter adjustments set for single pages, taking the place of the global (or auto) ones
+  pageAdjustments?: Record<number, Partial<Record<AdjustmentKey, number>>>;
+  // Rectangles per page that are never filtered
+  pageRegions?: Record<number, ExclusionRegion[]>;
   onPageChange?: (current: number, total: number) => void;
   onScaleChange?: (scale: number) => void;
   onScrollModeChange?: (scrollMode: boolean) => void;
+  onReadingDirectionChange?: (direction: ReadingDirection) => void;
+  onPageRotationsChange?: (pageRotations: Record<number, number>) => void;
+  onDarkPageModeChange?: (mode: DarkPageMode) => void;
+  onPageInversionChange?: (pageInversion: Record<number, boolean>) => void;
+  onPageClassesChange?: (pageClasses: Record<number, PageClass>) => void;
+  onPageAdjustmentsChange?: (pageAdjustments: Record<number, Partial<Record<AdjustmentKey, number>>>) => void;
+  onPageRegionsChange?: (pageRegions: Record<number, ExclusionRegion[]>) => void;
   onViewerReady?: (controls: {
     goToPage: (page: number) => void;
     zoomIn: () => void;
     zoomOut: () => void;
     startOCR: () => void;
+    openFind: () => void;
+    openPageFilters: () => void;
+    openExport: () => void;
   }) => void;
 }
 
+// Stable default so effects depending on page rotations don't re-run every render
+const NO_PAGE_ROTATIONS: Record<number, number> = {};
+const NO_PAGE_INVERSION: Record<number, boolean> = {};
+const NO_PAGE_CLASSES: Record<number, PageClass> = {};
+const NO_PAGE_ADJUSTMENTS: Record<number, Partial<Record<AdjustmentKey, number>>> = {};
+const NO_PAGE_REGIONS: Record<number, ExclusionRegion[]> = {};
+const NO_REGIONS: ExclusionRegion[] = [];
+const NO_PRESETS: FilterPreset[] = [];
+
+// A running export (or size estimate): its worker, the page render in progress and the signal that cancels it
+interface ExportJob {
+  worker: ExportWorker;
+  controller: AbortController;
+  renderTask: any;
+}
+
+const createExportJob = (): ExportJob => ({ worker: createExportWorker(), controller: new AbortController(), renderTask: null });
+
+function throwIfCancelled(job: ExportJob) {
+  if (job.controller.signal.aborted) throw new DOMException("Export cancelled", "AbortError");
+}
+
 declare global {
   interface Window {
     pdfjsLib: any;
@@ -55,86 +188,208 @@ declare global {
 export function PDFViewerInner({
   pdfSource,
   pdfFileName,
-  darkMode,
-  smartDarkMode,
-  inversion,
-  brightness,
-  contrast,
-  sepia,
+  filters,
+  presets = NO_PRESETS,
   isZenMode = false,
   initialPage = 1,
   initialScale = null,
   scrollMode = false,
+  maxRenderedPages = DEFAULT_MAX_RENDERED_PAGES,
+  readingDirection = "ltr",
+  pageRotations = NO_PAGE_ROTATIONS,
+  darkPageMode = "auto",
+  pageInversion = NO_PAGE_INVERSION,
+  pageClasses = NO_PAGE_CLASSES,
+  pageAdjustments = NO_PAGE_ADJUSTMENTS,
+  pageRegions = NO_PAGE_REGIONS,
   onPageChange,
   onScaleChange,
   onScrollModeChange,
+  onReadingDirectionChange,
+  onPageRotationsChange,
+  onDarkPageModeChange,
+  onPageInversionChange,
+  onPageClassesChange,
+  onPageAdjustmentsChange,
+  onPageRegionsChange,
   onViewerReady,
 }: PDFViewerInnerProps) {
+  const { darkMode, preserveImages } = filters;
   const canvasRef = useRef<HTMLCanvasElement>(null);
+  // Second canvas for the facing page in paged spread mode
+  const secondCanvasRef = useRef<HTMLCanvasElement>(null);
   const containerRef = useRef<HTMLDivElement>(null);
   const scrollContainerRef = useRef<HTMLDivElement>(null);
   const pageRefs = useRef<Map<number, HTMLCanvasElement>>(new Map());
-  const renderTaskRef = useRef<any>(null);
+  const renderIdRef = useRef(0);
+  const pendingPagesRef = useRef<PageHandle[]>([]);
   const [pdfDoc, setPdfDoc] = useState<any>(null);
   const [currentPage, setCurrentPage] = useState(initialPage);
   const [totalPages, setTotalPages] = useState(0);
   const [scale, setScale] = useState<number | null>(initialScale);
+  // Rotation applied to every page; pageRotations adds to it for individual pages
   const [rotation, setRotation] = useState(0);
   const [isLoading, setIsLoading] = useState(false);
   const [error, setError] = useState<string | null>(null);
   const [pdfjsReady, setPdfjsReady] = useState(false);
-  const [isExporting, setIsExporting] = useState(false);
-  const [exportProgress, setExportProgress] = useState(0);
+  // Pages finished in the running export, and the error of the last one that failed
+  const [exportStatus, setExportStatus] = useState<{ done: number; total: number; startedAt: number } | null>(null);
+  const [exportError, setExportError] = useState<string | null>(null);
+  const exportJobRef = useRef<ExportJob | null>(null);
+  const isExporting = exportStatus !== null;
+  useEffect(() => () => exportJobRef.current?.worker.terminate(), []);
   const [canvasSize, setCanvasSize] = useState({ width: 0, height: 0 });
   const [isEditingPage, setIsEditingPage] = useState(false);
   const [pageInputValue, setPageInputValue] = useState("");
   const pageInputRef = useRef<HTMLInputElement>(null);
-  const [linkAnnotations, setLinkAnnotations] = useState<Array<{
-    rect: { x: number; y: number; width: number; height: number };
-    dest: number | null;
-    url: string | null;
-  }>>([]);
+  // Link annotations for the pages on screen in page mode, keyed by page number
+  const [linkAnnotations, setLinkAnnotations] = useState<Record<number, LinkAnnotation[]>>({});
   const [isDragging, setIsDragging] = useState(false);
   const [dragStart, setDragStart] = useState({ x: 0, y: 0, scrollLeft: 0, scrollTop: 0 });
   const [canPan, setCanPan] = useState(false);
   const [renderedPages, setRenderedPages] = useState<Set<number>>(new Set());
-  const [pageDimensions, setPageDimensions] = useState<{ width: number; height: number } | null>(null);
+  // Unscaled size of every page, so scroll mode can lay out mixed page sizes before rendering
+  const [pageSizes, setPageSizes] = useState<PageSize[]>([]);
   const [swipeStart, setSwipeStart] = useState<{ x: number; y: number } | null>(null);
   const [canPanHorizontally, setCanPanHorizontally] = useState(false);
   const [fitMode, setFitMode] = useState<'width' | 'height' | null>(null);
+  const [sidePanel, setSidePanel] = useState<'outline' | 'thumbnails' | null>(null);
+  const [spreadMode, setSpreadMode] = useState(false);
+  const [spreadCover, setSpreadCover] = useState(true);
+  // Histogram analysis of the pages measured so far, for dark page detection and auto mode
+  const [pageAnalysis, setPageAnalysis] = useState<Record<number, PageAnalysis>>({});
+  const [darkNoticeDismissed, setDarkNoticeDismissed] = useState(false);
+  // Filters an earlier export of this file was saved with, to warn before filtering it again
+  const [exportedFilters, setExportedFilters] = useState<ExportedFilters | null>(null);
+  const [exportedNoticeDismissed, setExportedNoticeDismissed] = useState(false);
   
   // Pinch-to-zoom state
   const [isPinching, setIsPinching] = useState(false);
   const initialPinchDistance = useRef<number | null>(null);
-  const initialPinchScale = useRef<number | null>(null);
 
-  const { isProcessing: isOCRProcessing, progress: ocrProgress, text: ocrText, runOCR, clearResult: clearOCR } = useOCR();
+  // Focal-point zoom: the anchor is restored after the next layout, gestures are previewed with CSS
+  const contentRef = useRef<HTMLDivElement>(null);
+  const zoomAnchorRef = useRef<ZoomAnchor | null>(null);
+  const [zoomGesture, setZoomGesture] = useState<ZoomGesture | null>(null);
+  const zoomGestureRef = useRef<ZoomGesture | null>(null);
+  const wheelEndTimeoutRef = useRef<NodeJS.Timeout | null>(null);
+
+  const { isProcessing: isOCRProcessing, progress: ocrProgress, text: ocrText, runOCR, clearResult: clearOCR, recognizeWords, releaseWordWorker } = useOCR();
+  const dpr = useDevicePixelRatio();
+  const search = usePdfSearch(pdfDoc, totalPages);
+  const { getThumbnail } = useThumbnails(pdfDoc);
+  const { acquirePage, prefetch } = useRenderCache(pdfDoc);
+  const [isFindOpen, setIsFindOpen] = useState(false);
+  // Bumped on every open request so the find bar re-focuses even when already open
+  const [findFocusToken, setFindFocusToken] = useState(0);
+  const [isPageFiltersOpen, setIsPageFiltersOpen] = useState(false);
+  const [isExportOpen, setIsExportOpen] = useState(false);
+  // Options of the last export; the page range always starts as the whole document
+  const [exportOptions, setExportOptions] = useState(DEFAULT_EXPORT_OPTIONS);
+  const [isEditingRegions, setIsEditingRegions] = useState(false);
+
+  const getPageRotation = useCallback(
+    (pageNum: number) => (rotation + (pageRotations[pageNum] ?? 0)) % 360,
+    [rotation, pageRotations]
+  );
+  const getPageRegions = (pageNum: number) => pageRegions[pageNum] ?? NO_REGIONS;
+  const setPageRegions = (pageNum: number, regions: ExclusionRegion[]) => {
+    const next = { ...pageRegions };
+    if (regions.length === 0) delete next[pageNum];
+    else next[pageNum] = regions;
+    onPageRegionsChange?.(next);
+  };
+
+  // Whether dark mode filters a page; pages that already have a dark background may be left alone
+  const isPageFiltered = useCallback(
+    (pageNum: number, analysis = pageAnalysis[pageNum]) =>
+      darkMode && shouldInvertPage(darkPageMode, pageInversion[pageNum], analysis?.luminance),
+    [darkMode, darkPageMode, pageInversion, pageAnalysis]
+  );
+  // Auto mode page class: chosen by hand, else detected (undefined until the page is analyzed)
+  const getPageClass = useCallback(
+    (pageNum: number, analysis = pageAnalysis[pageNum]): PageClass | undefined =>
+      pageClasses[pageNum] ?? (analysis && classifyPage(analysis)),
+    [pageClasses, pageAnalysis]
+  );
+  const getPageFilters = useCallback((pageNum: number, analysis = pageAnalysis[pageNum]): FilterSettings => {
+    const pageClass = filters.autoMode ? getPageClass(pageNum, analysis) : undefined;
+    const settings = pageClass ? getAutoPageSettings(filters, pageClass, presets) : filters;
+    const override = pageAdjustments[pageNum];
+    return override ? { ...settings, adjustments: { ...settings.adjustments, ...override } } : settings;
+  }, [filters, presets, pageAnalysis, pageAdjustments, getPageClass]);
+  const getPageFilterStyle = (pageNum: number) => isPageFiltered(pageNum) ? getFilterStyle(getPageFilters(pageNum)) : {};
+
+  // Layout rows: facing-page spreads in spread mode, otherwise one page per row
+  const spreads = useMemo(
+    () => spreadMode ? getSpreads(totalPages, spreadCover) : Array.from({ length: totalPages }, (_, i) => [i + 1]),
+    [spreadMode, spreadCover, totalPages]
+  );
+  const spreadIndex = getSpreadIndex(spreads, currentPage);
+  const visiblePages = useMemo(() => spreads[spreadIndex] ?? [currentPage], [spreads, spreadIndex, currentPage]);
 
   // Scroll to page helper (for scroll mode)
   const scrollToPageRef = useRef<(pageNum: number) => void>(() => {});
+
+  const goToPage = useCallback((page: number) => {
+    if (page >= 1 && page <= totalPages) { 
+      clearOCR(); 
+      setCurrentPage(page);
+      if (scrollMode) {
+        // Use setTimeout to allow state update before scrolling
+        setTimeout(() => scrollToPageRef.current(page), 0);
+      }
+    }
+  }, [totalPages, clearOCR, scrollMode]);
+
+  // Zoom buttons and keys keep the center of the view in place
+  const zoomByStep = useCallback((delta: number) => {
+    const current = scale || 1;
+    const next = clampScale(current + delta);
+    if (next === current) return;
+    const container = scrollMode ? scrollContainerRef.current : containerRef.current;
+    if (container) {
+      const rect = container.getBoundingClientRect();
+      zoomAnchorRef.current = captureZoomAnchor(container, rect.left + rect.width / 2, rect.top + rect.height / 2);
+    }
+    setFitMode(null);
+    setScale(next);
+  }, [scale, scrollMode]);
+
+  const openFind = useCallback(() => {
+    setIsFindOpen(true);
+    setFindFocusToken((prev) => prev + 1);
+  }, []);
+  const openPageFilters = useCallback(() => setIsPageFiltersOpen(true), []);
+  const openExport = useCallback(() => setIsExportOpen(true), []);
   
   // Expose controls to parent
   useEffect(() => {
     if (onViewerReady) {
       onViewerReady({
-        goToPage: (page: number) => {
-          if (page >= 1 && page <= totalPages) { 
-            clearOCR(); 
-            setCurrentPage(page);
-            if (scrollMode) {
-              // Use setTimeout to allow state update before scrolling
-              setTimeout(() => scrollToPageRef.current(page), 0);
-            }
-          }
-        },
-        zoomIn: () => { setFitMode(null); setScale((prev) => Math.min((prev || 1) + 0.2, 9)); },
-        zoomOut: () => { setFitMode(null); setScale((prev) => Math.max((prev || 1) - 0.2, 0.01)); },
+        goToPage,
+        zoomIn: () => zoomByStep(0.2),
+        zoomOut: () => zoomByStep(-0.2),
         startOCR: () => {
           if (canvasRef.current) runOCR(canvasRef.current);
         },
+        openFind,
+        openPageFilters,
+        openExport,
       });
     }
-  }, [onViewerReady, totalPages, runOCR, clearOCR, scrollMode]);
+  }, [onViewerReady, goToPage, zoomByStep, runOCR, openFind, openPageFilters, openExport]);
+
+  // Jump to the page holding the active search match; only the match changing triggers a jump,
+  // not goToPage changing with the view mode
+  const goToPageRef = useRef(goToPage);
+  useEffect(() => {
+    goToPageRef.current = goToPage;
+  }, [goToPage]);
+  const activeMatch = search.activeMatch;
+  useEffect(() => {
+    if (activeMatch) goToPageRef.current(activeMatch.pageNum);
+  }, [activeMatch]);
 
   // Notify parent of page changes
   useEffect(() => {
@@ -153,18 +408,24 @@ export function PDFViewerInner({
   // Keyboard shortcuts
   useEffect(() => {
     const handleKeyDown = (e: KeyboardEvent) => {
+      if (e.key === 'f' && (e.metaKey || e.ctrlKey)) {
+        e.preventDefault();
+        openFind();
+        return;
+      }
       if (e.target instanceof HTMLInputElement || e.target instanceof HTMLTextAreaElement) return;
       switch (e.key) {
-        case 'ArrowLeft': goToPrevPage(); break;
-        case 'ArrowRight': goToNextPage(); break;
+        case 'ArrowLeft': stepPage(getDirectionalStep(false, readingDirection)); break;
+        case 'ArrowRight': stepPage(getDirectionalStep(true, readingDirection)); break;
         case '+': case '=': e.preventDefault(); zoomIn(); break;
         case '-': e.preventDefault(); zoomOut(); break;
         case 'r': if (!e.metaKey && !e.ctrlKey) rotate(); break;
+        case 'R': if (!e.metaKey && !e.ctrlKey) rotateCurrentPage(); break;
       }
     };
     window.addEventListener('keydown', handleKeyDown);
     return () => window.removeEventListener('keydown', handleKeyDown);
-  }, [currentPage, totalPages]);
+  }, [currentPage, totalPages, spreads, scrollMode, readingDirection, pageRotations]);
 
   // Load PDF.js from CDN
   useEffect(() => {
@@ -186,11 +447,13 @@ export function PDFViewerInner({
     if (!container) return 1.5;
     const page = await pdf.getPage(1);
     const viewport = page.getViewport({ scale: 1, rotation: 0 });
-    const containerWidth = container.clientWidth - 32;
+    // In spread mode two pages share the width (plus the gap between them)
+    const pagesAcross = spreadMode && pdf.numPages > 1 ? 2 : 1;
+    const containerWidth = container.clientWidth - 32 - (pagesAcross - 1) * SPREAD_GAP;
     const containerHeight = container.clientHeight - 32;
     if (mode === 'height') return Math.min(Math.max(containerHeight / viewport.height, 0.01), 9);
-    return Math.min(Math.max(containerWidth / viewport.width, 0.01), 9);
-  }, [scrollMode]);
+    return Math.min(Math.max(containerWidth / (viewport.width * pagesAcross), 0.01), 9);
+  }, [scrollMode, spreadMode]);
 
   const loadPDF = useCallback(async () => {
     if (!pdfSource || !pdfjsReady || !window.pdfjsLib) return;
@@ -216,11 +479,6 @@ export function PDFViewerInner({
       }
       const fitScale = initialScale || await calculateFitScale(pdf);
       
-      // Get first page dimensions for placeholder sizing in scroll mode
-      const firstPage = await pdf.getPage(1);
-      const viewport = firstPage.getViewport({ scale: fitScale, rotation: 0 });
-      setPageDimensions({ width: viewport.width, height: viewport.height });
-      
       setPdfDoc(pdf);
       setTotalPages(pdf.numPages);
       setCurrentPage(Math.min(initialPage, pdf.numPages));
@@ -244,94 +502,83 @@ export function PDFViewerInner({
 
   const renderPage = useCallback(async () => {
     if (!pdfDoc || !canvasRef.current || !scale) return;
-    if (renderTaskRef.current) {
-      try { await renderTaskRef.current.cancel(); } catch { /* Ignore */ }
-      renderTaskRef.current = null;
-    }
+    const renderId = ++renderIdRef.current;
+    const handles = visiblePages.map((pageNum) => acquirePage(pageNum, scale, getPageRotation(pageNum), dpr));
+    // Let go of the pages a superseded render was waiting on, cancelling those nothing else wants
+    pendingPagesRef.current.forEach((handle) => handle.release());
+    pendingPagesRef.current = handles;
     try {
-      const page = await pdfDoc.getPage(currentPage);
-      // Re-check canvas ref after async operation
-      if (!canvasRef.current) return;
-      const canvas = canvasRef.current;
-      const context = canvas.getContext("2d");
-      if (!context) return;
-      
-      // Use device pixel ratio for crisp text on high-DPI displays
-      const dpr = window.devicePixelRatio || 1;
-      const viewport = page.getViewport({ scale, rotation });
-      
-      // Set canvas size to account for device pixel ratio
-      canvas.width = viewport.width * dpr;
-      canvas.height = viewport.height * dpr;
-      
-      // Scale canvas back down with CSS for correct display size
-      canvas.style.width = `${viewport.width}px`;
-      canvas.style.height = `${viewport.height}px`;
-      
-      // Scale context to match device pixel ratio
-      context.scale(dpr, dpr);
-      
-      setCanvasSize({ width: viewport.width, height: viewport.height });
-      renderTaskRef.current = page.render({ canvasContext: context, viewport });
-      await renderTaskRef.current.promise;
-      renderTaskRef.current = null;
-      
-      // Extract link annotations
-      const annotations = await page.getAnnotations();
-      const links: typeof linkAnnotations = [];
-      
-      for (const annot of annotations) {
-        if (annot.subtype === "Link" && annot.rect) {
-          const [x1, y1, x2, y2] = annot.rect;
-          // Transform coordinates using viewport
-          const rect = viewport.convertToViewportRectangle([x1, y1, x2, y2]);
-          const [vx1, vy1, vx2, vy2] = rect;
-          
-          // Normalize rect (PDF coords can be inverted)
-          const x = Math.min(vx1, vx2);
-          const y = Math.min(vy1, vy2);
-          const width = Math.abs(vx2 - vx1);
-          const height = Math.abs(vy2 - vy1);
-          
-          let dest: number | null = null;
-          let url: string | null = null;
-          
-          if (annot.url) {
-            url = annot.url;
-          } else if (annot.dest) {
-            // Internal link - resolve destination to page number
-            try {
-              if (typeof annot.dest === "string") {
-                const destRef = await pdfDoc.getDestination(annot.dest);
-                if (destRef && destRef[0]) {
-                  const pageIndex = await pdfDoc.getPageIndex(destRef[0]);
-                  dest = pageIndex + 1; // Convert to 1-based
-                }
-              } else if (Array.isArray(annot.dest) && annot.dest[0]) {
-                const pageIndex = await pdfDoc.getPageIndex(annot.dest[0]);
-                dest = pageIndex + 1;
-              }
-            } catch {
-              // Failed to resolve destination
-            }
-          }
-          
-          if (dest || url) {
-            links.push({ rect: { x, y, width, height }, dest, url });
-          }
-        }
-      }
-      
+      const rendered = await Promise.all(handles.map((handle) => handle.page));
+      if (renderId !== renderIdRef.current) return;
+      const links: Record<number, LinkAnnotation[]> = {};
+      rendered.forEach((page, idx) => {
+        const canvas = idx === 0 ? canvasRef.current : secondCanvasRef.current;
+        const context = canvas?.getContext("2d");
+        if (!canvas || !context) return;
+        
+        // Bitmaps are already at device resolution (or a low-resolution backdrop at deep zoom)
+        canvas.width = page.bitmap.width;
+        canvas.height = page.bitmap.height;
+        
+        // Scale canvas back down with CSS for correct display size
+        canvas.style.width = `${page.width}px`;
+        canvas.style.height = `${page.height}px`;
+        context.drawImage(page.bitmap, 0, 0);
+        
+        if (idx === 0) setCanvasSize({ width: page.width, height: page.height });
+        links[visiblePages[idx]] = page.links;
+      });
       setLinkAnnotations(links);
-    } catch (err: any) {
-      if (err?.name !== 'RenderingCancelledException') console.error("[v0] Error rendering page:", err);
+    } catch (err) {
+      if (renderId === renderIdRef.current) console.error("[v0] Error rendering page:", err);
+    } finally {
+      if (pendingPagesRef.current === handles) {
+        handles.forEach((handle) => handle.release());
+        pendingPagesRef.current = [];
+      }
     }
-  }, [pdfDoc, currentPage, scale, rotation]);
+  }, [pdfDoc, visiblePages, scale, getPageRotation, dpr, acquirePage]);
 
   useEffect(() => { if (!scrollMode) renderPage(); }, [renderPage, scrollMode]);
 
-  // Track which pages are currently being rendered to prevent concurrent renders
-  const renderingPages = useRef<Set<number>>(new Set());
+  // Warm the render cache with the neighbouring pages or spreads while the browser is idle
+  useEffect(() => {
+    if (scrollMode || !pdfDoc || !scale) return;
+    const neighbours = [...(spreads[spreadIndex + 1] ?? []), ...(spreads[spreadIndex - 1] ?? [])];
+    return prefetch(neighbours.map((pageNum) => ({ pageNum, rotation: getPageRotation(pageNum) })), scale, dpr);
+  }, [scrollMode, pdfDoc, scale, spreads, spreadIndex, getPageRotation, dpr, prefetch]);
+
+  useEffect(() => {
+    setPageAnalysis({});
+    setDarkNoticeDismissed(false);
+    setExportedFilters(null);
+    setExportedNoticeDismissed(false);
+    if (!pdfDoc) return;
+    let cancelled = false;
+    readExportedFilters(pdfDoc).then((filters) => { if (!cancelled) setExportedFilters(filters); });
+    return () => { cancelled = true; };
+  }, [pdfDoc]);
+
+  // Analyze pages for dark page detection and auto mode: the first pages of the document, then the pages on screen
+  useEffect(() => {
+    if (!pdfDoc || !darkMode || (darkPageMode !== "auto" && !filters.autoMode)) return;
+    const firstPages = Array.from({ length: Math.min(DETECTION_SAMPLE_PAGES, totalPages) }, (_, i) => i + 1);
+    const pages = new Set([...firstPages, ...(scrollMode ? renderedPages : visiblePages)]);
+    let cancelled = false;
+    pages.forEach((pageNum) => {
+      getPageAnalysis(pdfDoc, pageNum)
+        .then((analysis) => {
+          if (cancelled) return;
+          setPageAnalysis((prev) => prev[pageNum] === analysis ? prev : { ...prev, [pageNum]: analysis });
+        })
+        .catch((err) => console.error("Error analyzing page:", err));
+    });
+    return () => { cancelled = true; };
+  }, [pdfDoc, darkMode, darkPageMode, filters.autoMode, totalPages, scrollMode, renderedPages, visiblePages]);
+
+  // Track which pages are currently being rendered to prevent concurrent renders, with the PDF.js
+  // render task once it has started so a released page can cancel it
+  const renderingPages = useRef<Map<number, { task: any; cancelled: boolean }>>(new Map());
 
   // Render a specific page to a canvas (for scroll mode)
   const renderPageToCanvas = useCallback(async (pageNum: number, canvas: HTMLCanvasElement) => {
@@ -339,39 +586,65 @@ export function PDFViewerInner({
     
     // Prevent concurrent renders on the same page
     if (renderingPages.current.has(pageNum)) return;
-    renderingPages.current.add(pageNum);
+    const rendering = { task: null as any, cancelled: false };
+    renderingPages.current.set(pageNum, rendering);
     
     try {
       const page = await pdfDoc.getPage(pageNum);
       const context = canvas.getContext("2d");
-      if (!context) {
-        renderingPages.current.delete(pageNum);
-        return;
-      }
+      if (!context || rendering.cancelled) return;
       
       // Use device pixel ratio for crisp text on high-DPI displays
-      const dpr = window.devicePixelRatio || 1;
-      const viewport = page.getViewport({ scale, rotation });
+      const viewport = page.getViewport({ scale, rotation: getPageRotation(pageNum) });
+      const pixelRatio = getBackdropPixelRatio(viewport.width, viewport.height, dpr);
       
       // Set canvas size to account for device pixel ratio
-      canvas.width = viewport.width * dpr;
-      canvas.height = viewport.height * dpr;
+      canvas.width = viewport.width * pixelRatio;
+      canvas.height = viewport.height * pixelRatio;
       
       // Scale canvas back down with CSS for correct display size
       canvas.style.width = `${viewport.width}px`;
       canvas.style.height = `${viewport.height}px`;
       
       // Scale context to match device pixel ratio
-      context.scale(dpr, dpr);
+      context.scale(pixelRatio, pixelRatio);
       
-      await page.render({ canvasContext: context, viewport }).promise;
-      setRenderedPages(prev => new Set([...prev, pageNum]));
+      rendering.task = page.render({ canvasContext: context, viewport });
+      await rendering.task.promise;
+      if (!rendering.cancelled) setRenderedPages(prev => new Set([...prev, pageNum]));
     } catch (err: any) {
       if (err?.name !== 'RenderingCancelledException') console.error("Error rendering page:", err);
     } finally {
+      if (renderingPages.current.get(pageNum) === rendering) renderingPages.current.delete(pageNum);
+    }
+  }, [pdfDoc, scale, getPageRotation, dpr]);
+
+  // Pages inside the IntersectionObserver render window, which are never released
+  // (a new observer reports every page on creation, so entries never go stale)
+  const nearbyPages = useRef<Set<number>>(new Set());
+
+  // Shrink a page's backing store to nothing; its CSS size still comes from the size table.
+  // A render still in flight is cancelled, and queued again if the page is inside the render window.
+  const releasePageCanvas = useCallback((pageNum: number) => {
+    const rendering = renderingPages.current.get(pageNum);
+    if (rendering) {
+      rendering.cancelled = true;
+      rendering.task?.cancel();
       renderingPages.current.delete(pageNum);
     }
-  }, [pdfDoc, scale, rotation]);
+    const canvas = pageRefs.current.get(pageNum);
+    if (canvas) {
+      canvas.width = 0;
+      canvas.height = 0;
+    }
+    setRenderedPages(prev => {
+      if (!prev.has(pageNum)) return prev;
+      const next = new Set(prev);
+      next.delete(pageNum);
+      return next;
+    });
+    if (rendering && canvas && nearbyPages.current.has(pageNum)) renderPageToCanvas(pageNum, canvas);
+  }, [renderPageToCanvas]);
 
   // Lazy load pages using IntersectionObserver
   useEffect(() => {
@@ -380,15 +653,17 @@ export function PDFViewerInner({
     const observer = new IntersectionObserver(
       (entries) => {
         entries.forEach((entry) => {
+          const pageNum = parseInt(entry.target.getAttribute('data-page') || '0', 10);
+          if (pageNum <= 0) return;
           if (entry.isIntersecting) {
-            const pageNum = parseInt(entry.target.getAttribute('data-page') || '0', 10);
-            if (pageNum > 0) {
-              const canvas = pageRefs.current.get(pageNum);
-              if (canvas) {
-                // Always render when page comes into view (handles browser clearing canvas)
-                renderPageToCanvas(pageNum, canvas);
-              }
+            nearbyPages.current.add(pageNum);
+            const canvas = pageRefs.current.get(pageNum);
+            if (canvas) {
+              // Always render when page comes into view (handles browser clearing canvas)
+              renderPageToCanvas(pageNum, canvas);
             }
+          } else {
+            nearbyPages.current.delete(pageNum);
           }
         });
       },
@@ -398,71 +673,143 @@ export function PDFViewerInner({
         threshold: 0,
       }
     );
+
+    // Pages this far outside the viewport give up their canvases right away
+    const releaseObserver = new IntersectionObserver(
+      (entries) => {
+        entries.forEach((entry) => {
+          const pageNum = parseInt(entry.target.getAttribute('data-page') || '0', 10);
+          if (pageNum > 0 && !entry.isIntersecting) releasePageCanvas(pageNum);
+        });
+      },
+      {
+        root: scrollContainerRef.current,
+        rootMargin: '300% 0px',
+        threshold: 0,
+      }
+    );
     
     // Observe all page containers
     pageRefs.current.forEach((canvas, pageNum) => {
       canvas.setAttribute('data-page', String(pageNum));
       observer.observe(canvas);
+      releaseObserver.observe(canvas);
     });
     
-    return () => observer.disconnect();
-  }, [scrollMode, pdfDoc, scale, totalPages, renderPageToCanvas]);
+    return () => {
+      observer.disconnect();
+      releaseObserver.disconnect();
+    };
+  }, [scrollMode, pdfDoc, scale, totalPages, renderPageToCanvas, releasePageCanvas]);
+
+  // Keep the number of rasterized pages within budget, releasing those farthest from the current page
+  useEffect(() => {
+    if (!scrollMode || renderedPages.size <= maxRenderedPages) return;
+    const candidates = [...renderedPages]
+      .filter((pageNum) => !nearbyPages.current.has(pageNum))
+      .sort((a, b) => Math.abs(b - currentPage) - Math.abs(a - currentPage));
+    candidates.slice(0, renderedPages.size - maxRenderedPages).forEach(releasePageCanvas);
+  }, [scrollMode, renderedPages, maxRenderedPages, currentPage, releasePageCanvas]);
 
   // Clear rendered pages when switching modes or scale changes
   useEffect(() => {
     setRenderedPages(new Set());
     renderingPages.current.clear();
-  }, [scrollMode, scale, rotation]);
+    // Pages in view are re-rendered straight away; drop the stale bitmaps of everything else
+    pageRefs.current.forEach((canvas, pageNum) => {
+      if (!nearbyPages.current.has(pageNum)) {
+        canvas.width = 0;
+        canvas.height = 0;
+      }
+    });
+  }, [scrollMode, scale, getPageRotation, dpr]);
 
-  // Update page dimensions when scale changes
+  // Build the per-page size table once per document. Scroll mode goes to the current page once the
+  // seeded table arrives; when the measured one replaces it, the reader keeps the same spot in the
+  // row at the top of the view rather than jumping back to that page's top.
+  const pendingScrollRef = useRef<{ anchor: RowAnchor; scrollTop: number } | "current-page" | null>(null);
+  const rowLayoutRef = useRef<RowLayout[]>([]);
   useEffect(() => {
-    if (!pdfDoc || !scale) return;
-    const updateDimensions = async () => {
-      const firstPage = await pdfDoc.getPage(1);
-      const viewport = firstPage.getViewport({ scale, rotation });
-      setPageDimensions({ width: viewport.width, height: viewport.height });
+    if (!pdfDoc) return;
+    let cancelled = false;
+    let seeded = false;
+    const update = (sizes: PageSize[]) => {
+      if (cancelled) return;
+      const container = scrollContainerRef.current;
+      if (seeded && container) {
+        const paddingTop = parseFloat(getComputedStyle(container).paddingTop) || 0;
+        const anchor = getRowAnchor(rowLayoutRef.current, container.scrollTop - paddingTop);
+        pendingScrollRef.current = anchor && { anchor, scrollTop: container.scrollTop };
+      } else {
+        pendingScrollRef.current = "current-page";
+      }
+      seeded = true;
+      setPageSizes(sizes);
     };
-    updateDimensions();
-  }, [pdfDoc, scale, rotation]);
+    setPageSizes([]);
+    loadPageSizes(pdfDoc, update)
+      .then(update)
+      .catch((err) => console.error("Error measuring pages:", err));
+    return () => { cancelled = true; };
+  }, [pdfDoc]);
+
+  // Display size of a page at the current zoom and rotation
+  const getPageSize = useCallback((pageNum: number): PageSize | null => {
+    const base = pageSizes[pageNum - 1];
+    if (!base || !scale) return null;
+    return getDisplaySize(base, scale, getPageRotation(pageNum));
+  }, [pageSizes, scale, getPageRotation]);
+
+  const rowLayout = useMemo(() => computeRowLayout(spreads, getPageSize), [spreads, getPageSize]);
 
   // Track current page in scroll mode based on scroll position
   useEffect(() => {
-    if (!scrollMode || !scrollContainerRef.current) return;
+    if (!scrollMode || !scrollContainerRef.current || rowLayout.length === 0) return;
     
     const container = scrollContainerRef.current;
     const handleScroll = () => {
-      const containerRect = container.getBoundingClientRect();
-      const containerCenter = containerRect.top + containerRect.height / 2;
-      
-      let closestPage = 1;
-      let closestDistance = Infinity;
-      
-      pageRefs.current.forEach((canvas, pageNum) => {
-        const rect = canvas.getBoundingClientRect();
-        const pageCenter = rect.top + rect.height / 2;
-        const distance = Math.abs(pageCenter - containerCenter);
-        if (distance < closestDistance) {
-          closestDistance = distance;
-          closestPage = pageNum;
-        }
-      });
-      
-      if (closestPage !== currentPage) {
-        setCurrentPage(closestPage);
-      }
+      const paddingTop = parseFloat(getComputedStyle(container).paddingTop) || 0;
+      const center = container.scrollTop + container.clientHeight / 2 - paddingTop;
+      const row = rowLayout[findRowAt(rowLayout, center)];
+      // Keep the current page if it's already in the centered row (e.g. the right page of a spread)
+      setCurrentPage((prev) => row.pages.includes(prev) ? prev : row.pages[0]);
     };
     
     container.addEventListener('scroll', handleScroll);
     return () => container.removeEventListener('scroll', handleScroll);
-  }, [scrollMode, currentPage]);
+  }, [scrollMode, rowLayout]);
 
-  const scrollToPage = useCallback((pageNum: number) => {
-    if (!scrollContainerRef.current) return;
-    const canvas = pageRefs.current.get(pageNum);
-    if (canvas) {
-      canvas.scrollIntoView({ behavior: 'smooth', block: 'start' });
+  const scrollToPage = useCallback((pageNum: number, behavior: ScrollBehavior = 'smooth') => {
+    const container = scrollContainerRef.current;
+    if (!container) return;
+    const row = rowLayout.find((r) => r.pages.includes(pageNum));
+    if (row) {
+      const paddingTop = parseFloat(getComputedStyle(container).paddingTop) || 0;
+      container.scrollTo({ top: row.top + paddingTop, behavior });
     }
-  }, []);
+  }, [rowLayout]);
+
+  useEffect(() => {
+    rowLayoutRef.current = rowLayout;
+  }, [rowLayout]);
+
+  // Runs before paint, so the swapped table never shows at the old scroll position
+  useLayoutEffect(() => {
+    const pending = pendingScrollRef.current;
+    const container = scrollContainerRef.current;
+    if (!pending || !scrollMode || !container || pageSizes.length === 0) return;
+    pendingScrollRef.current = null;
+    if (pending === "current-page") {
+      scrollToPage(currentPage, 'auto');
+      return;
+    }
+    // The reader scrolled while the new table was being laid out; leave them where they went
+    if (container.scrollTop !== pending.scrollTop) return;
+    const offset = getRowAnchorOffset(rowLayout, pending.anchor);
+    if (offset === null) return;
+    const paddingTop = parseFloat(getComputedStyle(container).paddingTop) || 0;
+    container.scrollTop = offset + paddingTop;
+  }, [scrollMode, pageSizes, rowLayout, scrollToPage, currentPage]);
 
   // Keep ref updated for use in onViewerReady
   useEffect(() => {
@@ -497,27 +844,84 @@ export function PDFViewerInner({
     };
   }, [fitMode, pdfDoc, calculateFitScale, scrollMode]);
 
+  // Previous/next move by a whole spread (a single page outside spread mode)
+  const canGoPrev = spreadIndex > 0;
+  const canGoNext = spreadIndex < spreads.length - 1;
   const goToPrevPage = () => { 
-    if (currentPage > 1) { 
+    if (canGoPrev) { 
       clearOCR(); 
-      const newPage = currentPage - 1;
+      const newPage = spreads[spreadIndex - 1][0];
       setCurrentPage(newPage);
       if (scrollMode) scrollToPage(newPage);
     } 
   };
   const goToNextPage = () => { 
-    if (currentPage < totalPages) { 
+    if (canGoNext) { 
       clearOCR(); 
-      const newPage = currentPage + 1;
+      const newPage = spreads[spreadIndex + 1][0];
       setCurrentPage(newPage);
       if (scrollMode) scrollToPage(newPage);
     } 
   };
-  const zoomIn = () => { setFitMode(null); setScale((prev) => Math.min((prev || 1) + 0.2, 9)); };
-  const zoomOut = () => { setFitMode(null); setScale((prev) => Math.max((prev || 1) - 0.2, 0.01)); };
+  const stepPage = (step: 1 | -1) => step > 0 ? goToNextPage() : goToPrevPage();
+  const zoomIn = () => zoomByStep(0.2);
+  const zoomOut = () => zoomByStep(-0.2);
   const zoomToFit = async () => { if (pdfDoc) { setFitMode('width'); setScale(await calculateFitScale(pdfDoc, 'width')); } };
   const zoomToFitHeight = async () => { if (pdfDoc) { setFitMode('height'); setScale(await calculateFitScale(pdfDoc, 'height')); } };
   const rotate = () => setRotation((prev) => (prev + 90) % 360);
+  // Per-page override of dark page detection, dropped again when it matches what the page would get anyway
+  const toggleCurrentPageFilter = () => {
+    const next = { ...pageInversion };
+    const luminance = pageAnalysis[currentPage]?.luminance;
+    const filter = !shouldInvertPage(darkPageMode, pageInversion[currentPage], luminance);
+    if (filter === shouldInvertPage(darkPageMode, undefined, luminance)) delete next[currentPage];
+    else next[currentPage] = filter;
+    onPageInversionChange?.(next);
+  };
+  // Pages an earlier export already filtered; keeping them unfiltered shows them as they were exported
+  const exportedFilteredPages = exportedFilters
+    ? exportedFilters.pages.flatMap((settings, idx) => (settings && idx < totalPages ? [idx + 1] : []))
+    : [];
+  const keepExportedColors = () => {
+    const next = { ...pageInversion };
+    exportedFilteredPages.forEach((pageNum) => { next[pageNum] = false; });
+    onPageInversionChange?.(next);
+    setExportedNoticeDismissed(true);
+  };
+  const setCurrentPageClass = (pageClass: PageClass) => {
+    const next = { ...pageClasses };
+    const detected = pageAnalysis[currentPage] && classifyPage(pageAnalysis[currentPage]);
+    if (pageClass === detected) delete next[currentPage];
+    else next[currentPage] = pageClass;
+    onPageClassesChange?.(next);
+  };
+  // Overrides hold only the sliders changed for the page, so the rest keep following the global settings
+  const applyPageAdjustments = (pages: number[], adjustments: Partial<Record<AdjustmentKey, number>>) => {
+    if (Object.keys(adjustments).length === 0) return;
+    const next = { ...pageAdjustments };
+    for (const pageNum of pages) next[pageNum] = { ...next[pageNum], ...adjustments };
+    onPageAdjustmentsChange?.(next);
+  };
+  const clearPageAdjustments = (pages: number[]) => {
+    const next = { ...pageAdjustments };
+    for (const pageNum of pages) delete next[pageNum];
+    onPageAdjustmentsChange?.(next);
+  };
+  const rotateCurrentPage = () => {
+    const next = { ...pageRotations };
+    const pageRotation = ((pageRotations[currentPage] ?? 0) + 90) % 360;
+    if (pageRotation === 0) delete next[currentPage];
+    else next[currentPage] = pageRotation;
+    onPageRotationsChange?.(next);
+  };
+
+
+  // Re-fit when switching spread mode, since fit scales depend on how many pages sit side by side.
+  // calculateFitScale changes with the spread and scroll modes; resizes go through the ResizeObserver above
+  useEffect(() => {
+    if (!fitMode || !pdfDoc) return;
+    calculateFitScale(pdfDoc, fitMode).then(setScale);
+  }, [calculateFitScale, fitMode, pdfDoc, spreadCover]);
 
   const handlePageClick = () => {
     setPageInputValue(String(currentPage));
@@ -543,14 +947,13 @@ export function PDFViewerInner({
     }
   };
 
-  const handleLinkClick = (link: typeof linkAnnotations[0]) => {
+  const handleLinkClick = (link: LinkAnnotation) => {
     if (link.url) {
       // External link - open in new tab
       window.open(link.url, "_blank", "noopener,noreferrer");
     } else if (link.dest) {
       // Internal link - navigate to page
-      clearOCR();
-      setCurrentPage(link.dest);
+      goToPage(link.dest);
     }
   };
 
@@ -573,8 +976,8 @@ export function PDFViewerInner({
 
   // Drag-to-pan handlers (when zoomed in)
   const handleMouseDown = (e: React.MouseEvent) => {
-    // Don't start drag if clicking on a link or button
-    if ((e.target as HTMLElement).closest('button')) return;
+    // Don't start drag if clicking on a link or button, or selecting text
+    if ((e.target as HTMLElement).closest('button, .pdf-text-layer span')) return;
     
     if (canPan && containerRef.current) {
       // Zoomed in - enable panning
@@ -614,11 +1017,8 @@ export function PDFViewerInner({
       
       // Only trigger if horizontal swipe is dominant
       if (Math.abs(dx) > SWIPE_THRESHOLD && Math.abs(dx) > Math.abs(dy) * 1.5) {
-        if (dx > 0) {
-          goToPrevPage();
-        } else {
-          goToNextPage();
-        }
+        // Swiping left pulls in the page on the right
+        stepPage(getDirectionalStep(dx < 0, readingDirection));
       }
       setSwipeStart(null);
     }
@@ -629,6 +1029,99 @@ export function PDFViewerInner({
     setSwipeStart(null);
   };
 
+  // Zoom gestures scale the current bitmap with CSS and only commit the new scale when they end
+  const updateZoomGesture = (gesture: ZoomGesture | null) => {
+    zoomGestureRef.current = gesture;
+    setZoomGesture(gesture);
+  };
+
+  const beginZoomGesture = (clientX: number, clientY: number) => {
+    const container = scrollMode ? scrollContainerRef.current : containerRef.current;
+    const content = contentRef.current;
+    if (!container || !content || !scale) return;
+    const rect = content.getBoundingClientRect();
+    zoomAnchorRef.current = captureZoomAnchor(container, clientX, clientY);
+    updateZoomGesture({
+      startScale: scale,
+      scale,
+      originX: clientX - rect.left,
+      originY: clientY - rect.top,
+      startX: clientX,
+      startY: clientY,
+      clientX,
+      clientY,
+    });
+  };
+
+  const endZoomGesture = () => {
+    const gesture = zoomGestureRef.current;
+    if (!gesture) return;
+    updateZoomGesture(null);
+    if (gesture.scale === gesture.startScale) {
+      zoomAnchorRef.current = null;
+      return;
+    }
+    // The anchored point ends up under the final pointer or finger midpoint
+    if (zoomAnchorRef.current) {
+      zoomAnchorRef.current = { ...zoomAnchorRef.current, clientX: gesture.clientX, clientY: gesture.clientY };
+    }
+    setFitMode(null);
+    setScale(gesture.scale);
+  };
+
+  // Ctrl/⌘ + wheel (and trackpad pinch, which browsers report as ctrl+wheel) plus Safari's gesture events
+  const handleZoomEvent = (e: Event) => {
+    if (e.type === 'wheel') {
+      const wheel = e as WheelEvent;
+      if (!wheel.ctrlKey && !wheel.metaKey) return;
+      e.preventDefault();
+      if (!zoomGestureRef.current) beginZoomGesture(wheel.clientX, wheel.clientY);
+      const gesture = zoomGestureRef.current;
+      if (!gesture) return;
+      updateZoomGesture({ ...gesture, scale: clampScale(gesture.scale * getWheelZoomFactor(wheel)) });
+      if (wheelEndTimeoutRef.current) clearTimeout(wheelEndTimeoutRef.current);
+      wheelEndTimeoutRef.current = setTimeout(endZoomGesture, 150);
+      return;
+    }
+    const safariGesture = e as Event & { scale: number; clientX: number; clientY: number };
+    e.preventDefault();
+    if (e.type === 'gesturestart') {
+      beginZoomGesture(safariGesture.clientX, safariGesture.clientY);
+    } else if (e.type === 'gesturechange') {
+      const gesture = zoomGestureRef.current;
+      if (gesture) updateZoomGesture({ ...gesture, scale: clampScale(gesture.startScale * safariGesture.scale) });
+    } else {
+      endZoomGesture();
+    }
+  };
+
+  // Listeners are bound once per container; the ref always points at the latest handler
+  const zoomEventRef = useRef(handleZoomEvent);
+  useEffect(() => { zoomEventRef.current = handleZoomEvent; });
+
+  useEffect(() => {
+    const container = scrollMode ? scrollContainerRef.current : containerRef.current;
+    if (!container) return;
+    const listener = (e: Event) => zoomEventRef.current(e);
+    const gestureEvents = ['gesturestart', 'gesturechange', 'gestureend'];
+    // Non-passive so ctrl+wheel doesn't also zoom the whole browser page
+    container.addEventListener('wheel', listener, { passive: false });
+    gestureEvents.forEach((type) => container.addEventListener(type, listener));
+    return () => {
+      container.removeEventListener('wheel', listener);
+      gestureEvents.forEach((type) => container.removeEventListener(type, listener));
+      if (wheelEndTimeoutRef.current) clearTimeout(wheelEndTimeoutRef.current);
+    };
+  }, [scrollMode, pdfDoc, isLoading, error]);
+
+  // Page sizes come from the size table, so the new layout exists as soon as the scale commits
+  useLayoutEffect(() => {
+    const anchor = zoomAnchorRef.current;
+    zoomAnchorRef.current = null;
+    const container = scrollMode ? scrollContainerRef.current : containerRef.current;
+    if (anchor && container) restoreZoomAnchor(container, anchor);
+  }, [scale, scrollMode]);
+
   // Touch handlers for mobile swipe and pinch-to-zoom
   const handleTouchStart = (e: React.TouchEvent) => {
     if (scrollMode) return;
@@ -640,7 +1133,7 @@ export function PDFViewerInner({
       const touch2 = e.touches[1];
       const distance = Math.hypot(touch2.clientX - touch1.clientX, touch2.clientY - touch1.clientY);
       initialPinchDistance.current = distance;
-      initialPinchScale.current = scale;
+      beginZoomGesture((touch1.clientX + touch2.clientX) / 2, (touch1.clientY + touch2.clientY) / 2);
       setIsPinching(true);
       setSwipeStart(null);
       return;
@@ -672,15 +1165,20 @@ export function PDFViewerInner({
     if (scrollMode) return;
     
     // Handle pinch-to-zoom
-    if (isPinching && e.touches.length === 2 && initialPinchDistance.current && initialPinchScale.current) {
+    const gesture = zoomGestureRef.current;
+    if (isPinching && e.touches.length === 2 && initialPinchDistance.current && gesture) {
       e.preventDefault();
       const touch1 = e.touches[0];
       const touch2 = e.touches[1];
       const distance = Math.hypot(touch2.clientX - touch1.clientX, touch2.clientY - touch1.clientY);
       const scaleChange = distance / initialPinchDistance.current;
-      const newScale = Math.min(Math.max(initialPinchScale.current * scaleChange, 0.1), 9);
-      setFitMode(null);
-      setScale(newScale);
+      // Follow the midpoint so the pinch can also pan
+      updateZoomGesture({
+        ...gesture,
+        scale: clampScale(gesture.startScale * scaleChange),
+        clientX: (touch1.clientX + touch2.clientX) / 2,
+        clientY: (touch1.clientY + touch2.clientY) / 2,
+      });
       return;
     }
     
@@ -706,7 +1204,7 @@ export function PDFViewerInner({
     if (isPinching) {
       setIsPinching(false);
       initialPinchDistance.current = null;
-      initialPinchScale.current = null;
+      endZoomGesture();
       return;
     }
     
@@ -724,169 +1222,284 @@ export function PDFViewerInner({
       
       // Only trigger if horizontal swipe is dominant
       if (Math.abs(dx) > SWIPE_THRESHOLD && Math.abs(dx) > Math.abs(dy) * 1.5) {
-        if (dx > 0) {
-          goToPrevPage();
-        } else {
-          goToNextPage();
-        }
+        // Swiping left pulls in the page on the right
+        stepPage(getDirectionalStep(dx < 0, readingDirection));
       }
     }
     setSwipeStart(null);
   };
 
-  const getFilterStyle = (): React.CSSProperties => {
-    if (!darkMode) return {};
-    if (smartDarkMode) {
-      // Color preserve mode: invert + hue-rotate(180deg) preserves original hues
-      // Then apply brightness/contrast/sepia adjustments
-      return { 
-        filter: `invert(${inversion}%) hue-rotate(180deg) saturate(1.1) brightness(${brightness}%) contrast(${contrast}%) sepia(${sepia}%)` 
-      };
-    }
-    return { filter: `invert(${inversion}%) brightness(${brightness}%) contrast(${contrast}%) sepia(${sepia}%)` };
+  const closeFind = () => {
+    setIsFindOpen(false);
+    search.clearSearch();
   };
 
+  const getPageHighlights = (pageNum: number): TextHighlight[] =>
+    search.matches
+      .filter((match) => match.pageNum === pageNum)
+      .map((match) => ({ start: match.start, end: match.end, active: match === search.activeMatch }));
+
   const handleStartOCR = () => {
     if (canvasRef.current) runOCR(canvasRef.current);
   };
 
-  const exportPDF = async () => {
-    if (!pdfDoc || isExporting) return;
-    setIsExporting(true);
-    setExportProgress(0);
+  const getExportAnalysis = (pageNum: number) =>
+    darkMode && (darkPageMode === "auto" || filters.autoMode) ? getPageAnalysis(pdfDoc, pageNum) : Promise.resolve(undefined);
+
+  // Render a page for export; the worker filters it (keeping embedded images and exclusion regions
+  // original) and encodes it in the chosen format
+  const renderExportPage = async (pageNum: number, rotation: number, options: ExportOptions, job: ExportJob) => {
+    const page = await pdfDoc.getPage(pageNum);
+    const viewport = page.getViewport({ scale: getExportScale(options.dpi), rotation });
+    const canvas = document.createElement("canvas");
+    canvas.width = Math.round(viewport.width);
+    canvas.height = Math.round(viewport.height);
+    const context = canvas.getContext("2d", { willReadFrequently: true })!;
+    const renderTask = page.render({ canvasContext: context, viewport });
+    job.renderTask = renderTask;
+    await renderTask.promise;
+
+    const analysis = await getExportAnalysis(pageNum);
+    const filtered = isPageFiltered(pageNum, analysis);
+    const imageBoxes = filtered && preserveImages ? await getPageImageBoxes(pdfDoc, pageNum) : [];
+    const keepRects = filtered
+      ? getImageRects([...imageBoxes, ...getPageRegions(pageNum)], viewport).map((rect) => {
+          const x = Math.floor(rect.x), y = Math.floor(rect.y);
+          return { x, y, width: Math.ceil(rect.x + rect.width) - x, height: Math.ceil(rect.y + rect.height) - y };
+        })
+      : [];
+    const settings = filtered ? getPageFilters(pageNum, analysis) : null;
+    const bytes = await job.worker.processPage({
+      width: canvas.width,
+      height: canvas.height,
+      pixels: context.getImageData(0, 0, canvas.width, canvas.height).data.buffer,
+      settings,
+      keepRects,
+      grayscale: options.grayscale,
+      mime: getExportFormat(options.format).mime,
+      quality: options.quality / 100,
+    });
+    return { bytes, width: canvas.width, height: canvas.height, canvas, viewport, settings };
+  };
+
+  // Text for a page's invisible text layer: the page's own text, or OCR words when it has none
+  // (scanned pages). The canvas holds the unfiltered render, which OCR reads best.
+  const getExportText = async (pageNum: number, viewport: any, canvas: HTMLCanvasElement, job: ExportJob) => {
+    const items = await getPageExportText(pdfDoc, pageNum, viewport);
+    if (items.length > 0) return items;
+    return ocrWordsToExportText(await recognizeWords(canvas, job.controller.signal));
+  };
+
+  const getExportName = () => `${pdfFileName ? pdfFileName.replace(/\.pdf$/i, "") : "document"}--dark-mode.pdf`;
+
+  // Run one page of an export, naming the page in any error
+  const runExportPage = async <T,>(job: ExportJob, pageNum: number, step: () => Promise<T>): Promise<T> => {
+    throwIfCancelled(job);
     try {
-      const { jsPDF } = await import("jspdf");
-      let pdf: any = null;
-      for (let pageNum = 1; pageNum <= totalPages; pageNum++) {
-        setExportProgress(Math.round((pageNum / totalPages) * 100));
-        const page = await pdfDoc.getPage(pageNum);
-        const viewport = page.getViewport({ scale: 2, rotation });
-        const canvas = document.createElement("canvas");
-        canvas.width = viewport.width;
-        canvas.height = viewport.height;
-        const context = canvas.getContext("2d")!;
-        await page.render({ canvasContext: context, viewport }).promise;
-        if (darkMode) {
-          const imageData = context.getImageData(0, 0, canvas.width, canvas.height);
-          const filtered = applyFilters(imageData, inversion, brightness, contrast, sepia, smartDarkMode);
-          context.putImageData(filtered, 0, 0);
-        }
-        const pxToMm = 25.4 / (72 * 2);
-        const pageWidthMm = viewport.width * pxToMm;
-        const pageHeightMm = viewport.height * pxToMm;
-        if (pageNum === 1) {
-          pdf = new jsPDF({ orientation: pageWidthMm > pageHeightMm ? 'landscape' : 'portrait', unit: 'mm', format: [pageWidthMm, pageHeightMm] });
-        } else {
-          pdf.addPage([pageWidthMm, pageHeightMm], pageWidthMm > pageHeightMm ? 'landscape' : 'portrait');
-        }
-        pdf.addImage(canvas.toDataURL("image/jpeg", 0.95), "JPEG", 0, 0, pageWidthMm, pageHeightMm);
+      return await step();
+    } catch (err: any) {
+      throwIfCancelled(job);
+      throw new Error(`Page ${pageNum} could not be exported: ${err?.message ?? err}`);
+    }
+  };
+
+  const runExport = async (total: number, run: (job: ExportJob, pageDone: () => void) => Promise<void>) => {
+    if (!pdfDoc || exportJobRef.current) return;
+    const job = createExportJob();
+    exportJobRef.current = job;
+    setExportError(null);
+    const startedAt = Date.now();
+    let done = 0;
+    setExportStatus({ done, total, startedAt });
+    try {
+      await run(job, () => {
+        if (exportJobRef.current === job) setExportStatus({ done: ++done, total, startedAt });
+      });
+    } catch (err: any) {
+      if (err?.name !== "AbortError") {
+        console.error("Export failed:", err);
+        setExportError(err instanceof Error && err.message ? err.message : "Failed to export PDF. Please try again.");
       }
-      let exportName = pdfFileName ? pdfFileName.replace(/\.pdf$/i, "") : "document";
-      pdf.save(`${exportName}--dark-mode.pdf`);
-    } catch (err) {
-      console.error("Export failed:", err);
-      setError("Failed to export PDF. Please try again.");
     } finally {
-      setIsExporting(false);
-      setExportProgress(0);
+      // A cancelled job has already been cleared, and a new export may be running by now
+      if (exportJobRef.current === job) {
+        job.worker.terminate();
+        releaseWordWorker();
+        exportJobRef.current = null;
+        setExportStatus(null);
+      }
     }
   };
 
-  const applyFilters = (imageData: ImageData, invert: number, bright: number, contr: number, sep: number, smart: boolean): ImageData => {
-    const data = imageData.data;
-    const invertRatio = invert / 100;
-    const brightnessRatio = bright / 100;
-    const contrastFactor = (contr / 100 - 0.5) * 2;
-    const sepiaRatio = sep / 100;
+  // Clears the job right away: some steps (OCR) can't be interrupted, and the abandoned run stops
+  // at its next cancellation check without touching the new state
+  const cancelExport = () => {
+    const job = exportJobRef.current;
+    if (!job) return;
+    job.controller.abort();
+    job.renderTask?.cancel();
+    job.worker.terminate();
+    releaseWordWorker();
+    exportJobRef.current = null;
+    setExportStatus(null);
+  };
 
-    for (let i = 0; i < data.length; i += 4) {
-      let r = data[i], g = data[i + 1], b = data[i + 2];
-      
-      // Invert
-      r = r + (255 - 2 * r) * invertRatio;
-      g = g + (255 - 2 * g) * invertRatio;
-      b = b + (255 - 2 * b) * invertRatio;
-
-      // For color preserve mode, apply hue rotation (180 degrees) to preserve hues
-      if (smart) {
-        // Convert to HSL, rotate hue by 180, convert back
-        const max = Math.max(r, g, b) / 255;
-        const min = Math.min(r, g, b) / 255;
-        const l = (max + min) / 2;
-        
-        if (max !== min) {
-          const d = max - min;
-          const s = l > 0.5 ? d / (2 - max - min) : d / (max + min);
-          let h = 0;
-          const rn = r / 255, gn = g / 255, bn = b / 255;
-          if (max === rn) h = ((gn - bn) / d + (gn < bn ? 6 : 0)) / 6;
-          else if (max === gn) h = ((bn - rn) / d + 2) / 6;
-          else h = ((rn - gn) / d + 4) / 6;
-          
-          // Rotate hue by 180 degrees
-          h = (h + 0.5) % 1;
-          
-          // Convert back to RGB
-          const hue2rgb = (p: number, q: number, t: number) => {
-            if (t < 0) t += 1;
-            if (t > 1) t -= 1;
-            if (t < 1/6) return p + (q - p) * 6 * t;
-            if (t < 1/2) return q;
-            if (t < 2/3) return p + (q - p) * (2/3 - t) * 6;
-            return p;
-          };
-          
-          const q = l < 0.5 ? l * (1 + s) : l + s - l * s;
-          const p = 2 * l - q;
-          r = hue2rgb(p, q, h + 1/3) * 255;
-          g = hue2rgb(p, q, h) * 255;
-          b = hue2rgb(p, q, h - 1/3) * 255;
+  const exportPDF = (options: ExportOptions, pages: number[]) => runExport(pages.length, async (job, pageDone) => {
+    const { jsPDF } = await import("jspdf");
+    const format = getExportFormat(options.format);
+    const font = options.searchableText ? await loadExportFont() : null;
+    const pxToMm = 25.4 / options.dpi;
+    const exportedPage = (pageNum: number) => (pages.includes(pageNum) ? pages.indexOf(pageNum) + 1 : null);
+    const exportedFilters: ExportedFilters = { pages: [], grayscale: options.grayscale };
+    let pdf: any = null;
+    for (const pageNum of pages) {
+      await runExportPage(job, pageNum, async () => {
+        const { bytes, width, height, canvas, viewport, settings } = await renderExportPage(pageNum, getPageRotation(pageNum), options, job);
+        const pageWidthMm = width * pxToMm;
+        const pageHeightMm = height * pxToMm;
+        if (!pdf) {
+          pdf = new jsPDF({ orientation: pageWidthMm > pageHeightMm ? 'landscape' : 'portrait', unit: 'mm', format: [pageWidthMm, pageHeightMm], compress: true });
+        } else {
+          pdf.addPage([pageWidthMm, pageHeightMm], pageWidthMm > pageHeightMm ? 'landscape' : 'portrait');
         }
-        
-        // Slight saturation boost for color preserve mode
-        const avg = (r + g + b) / 3;
-        r = avg + (r - avg) * 1.1;
-        g = avg + (g - avg) * 1.1;
-        b = avg + (b - avg) * 1.1;
-      }
+        pdf.addImage(new Uint8Array(bytes), format.jspdf, 0, 0, pageWidthMm, pageHeightMm);
+        if (options.searchableText) addJsPDFTextLayer(pdf, await getExportText(pageNum, viewport, canvas, job), pxToMm, font);
+        addJsPDFLinks(pdf, await extractLinks(pdfDoc, await pdfDoc.getPage(pageNum), viewport), pxToMm, exportedPage);
+        exportedFilters.pages.push(settings);
+      });
+      pageDone();
+    }
+    throwIfCancelled(job);
+    // A broken outline shouldn't cost the whole export
+    addJsPDFOutline(pdf, await loadOutline(pdfDoc).catch(() => []), exportedPage);
+    await addJsPDFDocumentInfo(pdf, pdfDoc, exportedFilters);
+    pdf.save(getExportName());
+  });
 
-      // Apply brightness, contrast, sepia (both modes)
-      r *= brightnessRatio;
-      g *= brightnessRatio;
-      b *= brightnessRatio;
-
-      r = ((r / 255 - 0.5) * (1 + contrastFactor) + 0.5) * 255;
-      g = ((g / 255 - 0.5) * (1 + contrastFactor) + 0.5) * 255;
-      b = ((b / 255 - 0.5) * (1 + contrastFactor) + 0.5) * 255;
-
-      const sr = r * 0.393 + g * 0.769 + b * 0.189;
-      const sg = r * 0.349 + g * 0.686 + b * 0.168;
-      const sb = r * 0.272 + g * 0.534 + b * 0.131;
-      r = r + (sr - r) * sepiaRatio;
-      g = g + (sg - g) * sepiaRatio;
-      b = b + (sb - b) * sepiaRatio;
-
-      data[i] = Math.max(0, Math.min(255, r));
-      data[i + 1] = Math.max(0, Math.min(255, g));
-      data[i + 2] = Math.max(0, Math.min(255, b));
+  // Vector export: recolor the original document's content streams, so text stays selectable and
+  // links and the outline are kept; only pages the rewrite can't handle are rasterized
+  const exportVectorPDF = (options: ExportOptions, pages: number[]) => runExport(pages.length, async (job, pageDone) => {
+    const { createPdfRecolorer, replacePageWithImage, addInvisibleText, recordExportedFilters } = await import("@/lib/vector-export");
+    let recolorer: Awaited<ReturnType<typeof createPdfRecolorer>>;
+    try {
+      recolorer = await createPdfRecolorer(await pdfDoc.getData());
+    } catch (err: any) {
+      throw new Error(`This PDF can't be recolored (${err?.message ?? err}). Try exporting as images instead.`);
+    }
+    const { doc, recolorPage } = recolorer;
+    const font = options.searchableText ? await loadExportFont() : null;
+    // One transform per distinct filter settings, so form XObjects shared by such pages are rewritten once
+    const transforms = new Map<string, (rgb: Rgb) => void>();
+    const exportedFilters: ExportedFilters = { pages: [], grayscale: options.grayscale };
+    for (const pageNum of pages) {
+      await runExportPage(job, pageNum, async () => {
+        const analysis = await getExportAnalysis(pageNum);
+        const filtered = isPageFiltered(pageNum, analysis);
+        const settings = filtered ? getPageFilters(pageNum, analysis) : null;
+        exportedFilters.pages.push(settings);
+        const rotation = getPageRotation(pageNum);
+        // Exclusion regions only exist as pixels, so their pages take the raster path
+        if (!filtered || getPageRegions(pageNum).length === 0) {
+          let transform: VectorPage["transform"] = null;
+          if (filtered || options.grayscale) {
+            const key = JSON.stringify([settings, options.grayscale]);
+            if (!transforms.has(key)) {
+              const colors = settings ? getColorTransform(settings) : () => {};
+              transforms.set(key, options.grayscale ? withGrayscale(colors) : colors);
+            }
+            transform = transforms.get(key)!;
+          }
+          // Images keep their colors in the vector path, so grayscale output rasterizes pages with images
+          if (await recolorPage(pageNum, { transform, keepImages: preserveImages && !options.grayscale, rotation })) return;
+          throwIfCancelled(job);
+        }
+        // The page keeps its /Rotate entry, so the image is of the unrotated page
+        const { bytes, canvas, viewport } = await renderExportPage(pageNum, 0, options, job);
+        await replacePageWithImage(doc, pageNum, new Uint8Array(bytes), options.format, rotation);
+        if (options.searchableText) {
+          await addInvisibleText(doc, pageNum, await getExportText(pageNum, viewport, canvas, job), getExportScale(options.dpi), font);
+        }
+      });
+      pageDone();
+    }
+    throwIfCancelled(job);
+    for (let pageNum = totalPages; pageNum >= 1; pageNum--) {
+      if (!pages.includes(pageNum)) doc.removePage(pageNum - 1);
+    }
+    recordExportedFilters(doc, exportedFilters);
+
+    // pdf-lib writes a batch of objects per tick, so saving doesn't block the page either
+    const bytes = await doc.save();
+    throwIfCancelled(job);
+    const url = URL.createObjectURL(new Blob([new Uint8Array(bytes)], { type: "application/pdf" }));
+    const link = document.createElement("a");
+    link.download = getExportName();
+    link.href = url;
+    link.click();
+    URL.revokeObjectURL(url);
+  });
+
+  const startExport = (options: ExportOptions, pages: number[]) => {
+    const { mode, dpi, format, quality, grayscale, searchableText } = options;
+    setExportOptions({ mode, dpi, format, quality, grayscale, searchableText });
+    if (options.mode === "vector") exportVectorPDF(options, pages);
+    else exportPDF(options, pages);
+  };
+
+  // Raster size from a one-page export of a sample page, since jsPDF embeds JPEG data as is but
+  // decodes PNGs and deflates their pixels again; vector size from the original file's size per page
+  const estimateExportSize = async (options: ExportOptions, pages: number[]) => {
+    if (options.mode === "vector") {
+      const data = await pdfDoc.getData();
+      return Math.round((data.length * pages.length) / totalPages);
+    }
+    const sample = pages.includes(currentPage) ? currentPage : pages[0];
+    const job = createExportJob();
+    try {
+      const { bytes, width, height } = await renderExportPage(sample, getPageRotation(sample), options, job);
+      const { jsPDF } = await import("jspdf");
+      const pxToMm = 25.4 / options.dpi;
+      const pdf = new jsPDF({ unit: "mm", format: [width * pxToMm, height * pxToMm], compress: true });
+      pdf.addImage(new Uint8Array(bytes), getExportFormat(options.format).jspdf, 0, 0, width * pxToMm, height * pxToMm);
+      return pdf.output("arraybuffer").byteLength * pages.length;
+    } finally {
+      job.worker.terminate();
     }
-    
-    return imageData;
   };
 
+
+
   if (!pdfjsReady) return <div className="flex h-full items-center justify-center"><Loader2 className="h-8 w-8 animate-spin text-muted-foreground" /></div>;
   if (!pdfSource) return <div className="flex h-full items-center justify-center text-muted-foreground"><p>Load a PDF to get started</p></div>;
   if (isLoading) return <div className="flex h-full items-center justify-center"><Loader2 className="h-8 w-8 animate-spin text-muted-foreground" /></div>;
   if (error) return <div className="flex h-full items-center justify-center text-destructive"><p>{error}</p></div>;
 
   const toolbarHidden = isZenMode;
+  const samplePages = Array.from({ length: Math.min(DETECTION_SAMPLE_PAGES, totalPages) }, (_, i) => i + 1);
+  const documentLooksDark = samplePages.length > 0
+    && samplePages.every((pageNum) => pageAnalysis[pageNum] !== undefined)
+    && samplePages.filter((pageNum) => isDarkLuminance(pageAnalysis[pageNum].luminance)).length * 2 > samplePages.length;
+  const currentPageFiltered = isPageFiltered(currentPage);
+  // Pages with parts shown in their original colors on top of the filtered canvas
+  const hasUnfilteredLayer = (pageNum: number) => isPageFiltered(pageNum) && (preserveImages || getPageRegions(pageNum).length > 0);
+  const currentPageClass = getPageClass(currentPage);
+  // Previous and next point the way the pages turn: right to left in RTL documents
+  const chevronClass = readingDirection === "rtl" ? "-scale-x-100" : "";
+  const detectedPageClass = pageAnalysis[currentPage] && classifyPage(pageAnalysis[currentPage]);
 
   return (
     <div className="flex h-full flex-col">
+      <FilterDefs
+        settings={[
+          filters,
+          ...(filters.autoMode ? PAGE_CLASSES.map(({ key }) => getAutoPageSettings(filters, key, presets)) : []),
+          ...Object.keys(pageAdjustments).map((pageNum) => getPageFilters(Number(pageNum))),
+        ]}
+      />
       {/* Toolbar */}
       <div className={`flex items-center justify-between border-b border-border bg-card px-2 sm:px-4 py-2 transition-all duration-300 ${toolbarHidden ? "opacity-0 pointer-events-none h-0 py-0 border-0 overflow-hidden" : "opacity-100"}`}>
         <div className="flex items-center gap-1 sm:gap-2">
-          <Button variant="ghost" size="icon" onClick={goToPrevPage} disabled={currentPage <= 1} className="h-8 w-8 sm:h-9 sm:w-9"><ChevronLeft className="h-4 w-4" /></Button>
+          <Button variant="ghost" size="icon" onClick={goToPrevPage} disabled={!canGoPrev} className="h-8 w-8 sm:h-9 sm:w-9"><ChevronLeft className={`h-4 w-4 ${chevronClass}`} /></Button>
           {isEditingPage ? (
             <div className="flex items-center gap-1">
               <input
@@ -907,10 +1520,10 @@ export function PDFViewerInner({
               className="min-w-[60px] sm:min-w-[80px] rounded px-1 sm:px-2 py-1 text-center text-xs sm:text-sm text-foreground hover:bg-muted transition-colors"
               title="Click to jump to page"
             >
-              {currentPage} / {totalPages}
+              {formatSpreadLabel(visiblePages)} / {totalPages}
             </button>
           )}
-          <Button variant="ghost" size="icon" onClick={goToNextPage} disabled={currentPage >= totalPages} className="h-8 w-8 sm:h-9 sm:w-9"><ChevronRight className="h-4 w-4" /></Button>
+          <Button variant="ghost" size="icon" onClick={goToNextPage} disabled={!canGoNext} className="h-8 w-8 sm:h-9 sm:w-9"><ChevronRight className={`h-4 w-4 ${chevronClass}`} /></Button>
         </div>
         <div className="flex items-center gap-1 sm:gap-2 overflow-x-auto">
           <Button variant="ghost" size="icon" onClick={zoomOut} title="Zoom out" className="h-8 w-8 sm:h-9 sm:w-9 flex-shrink-0"><ZoomOut className="h-4 w-4" /></Button>
@@ -918,7 +1531,24 @@ export function PDFViewerInner({
           <Button variant="ghost" size="icon" onClick={zoomIn} title="Zoom in" className="h-8 w-8 sm:h-9 sm:w-9 flex-shrink-0"><ZoomIn className="h-4 w-4" /></Button>
           <Button variant="ghost" size="icon" onClick={zoomToFit} title="Fit to width" className={`h-8 w-8 sm:h-9 sm:w-9 flex-shrink-0 ${fitMode === 'width' ? "bg-accent" : ""}`}><MoveHorizontal className="h-4 w-4" /></Button>
           <Button variant="ghost" size="icon" onClick={zoomToFitHeight} title="Fit to height" className={`h-8 w-8 sm:h-9 sm:w-9 flex-shrink-0 hidden sm:flex ${fitMode === 'height' ? "bg-accent" : ""}`}><MoveVertical className="h-4 w-4" /></Button>
-          <Button variant="ghost" size="icon" onClick={rotate} title="Rotate" className="h-8 w-8 sm:h-9 sm:w-9 flex-shrink-0 hidden sm:flex"><RotateCw className="h-4 w-4" /></Button>
+          <Button variant="ghost" size="icon" onClick={rotateCurrentPage} title="Rotate this page (Shift+R)" className="h-8 w-8 sm:h-9 sm:w-9 flex-shrink-0 hidden sm:flex"><RotateCwSquare className="h-4 w-4" /></Button>
+          <Button variant="ghost" size="icon" onClick={rotate} title="Rotate all pages (R)" className="h-8 w-8 sm:h-9 sm:w-9 flex-shrink-0 hidden sm:flex"><RotateCw className="h-4 w-4" /></Button>
+          {darkMode && filters.autoMode && (
+            <select
+              value={currentPageClass ?? ""}
+              onChange={(e) => setCurrentPageClass(e.target.value as PageClass)}
+              title="Page type used by auto filters"
+              className="h-8 flex-shrink-0 rounded border border-border bg-input px-1 text-xs text-foreground focus:outline-none focus:ring-1 focus:ring-primary hidden sm:block"
+            >
+              {!currentPageClass && <option value="" disabled>Analyzing…</option>}
+              {PAGE_CLASSES.map(({ key, label }) => (
+                <option key={key} value={key}>{label}{key === detectedPageClass ? " (auto)" : ""}</option>
+              ))}
+            </select>
+          )}
+          <Button variant="ghost" size="icon" onClick={toggleCurrentPageFilter} disabled={!darkMode} title={currentPageFiltered ? "Show this page in its original colors" : "Apply dark mode to this page"} className={`h-8 w-8 sm:h-9 sm:w-9 flex-shrink-0 hidden sm:flex ${darkMode && !currentPageFiltered ? "bg-accent" : ""}`}><SunMoon className="h-4 w-4" /></Button>
+          <Button variant="ghost" size="icon" onClick={openPageFilters} disabled={!darkMode} title="Filters for this page or a page range" className={`h-8 w-8 sm:h-9 sm:w-9 flex-shrink-0 hidden sm:flex ${pageAdjustments[currentPage] ? "bg-accent" : ""}`}><SlidersHorizontal className="h-4 w-4" /></Button>
+          <Button variant="ghost" size="icon" onClick={() => setIsEditingRegions((prev) => !prev)} title={isEditingRegions ? "Done editing excluded regions" : "Draw regions that keep their original colors"} className={`h-8 w-8 sm:h-9 sm:w-9 flex-shrink-0 hidden sm:flex ${isEditingRegions ? "bg-accent" : ""}`}><SquareDashedMousePointer className="h-4 w-4" /></Button>
           <div className="mx-1 sm:mx-2 h-4 w-px bg-border hidden sm:block" />
           <Button 
             variant="ghost" 
@@ -929,100 +1559,229 @@ export function PDFViewerInner({
           >
             {scrollMode ? <Square className="h-4 w-4" /> : <Rows3 className="h-4 w-4" />}
           </Button>
+          <Button variant="ghost" size="icon" onClick={() => onReadingDirectionChange?.(readingDirection === "rtl" ? "ltr" : "rtl")} title={readingDirection === "rtl" ? "Right-to-left (click for left-to-right)" : "Left-to-right (click for right-to-left)"} className={`h-8 w-8 sm:h-9 sm:w-9 flex-shrink-0 hidden sm:flex ${readingDirection === "rtl" ? "bg-accent" : ""}`}><ArrowLeftRight className="h-4 w-4" /></Button>
+          <Button variant="ghost" size="icon" onClick={() => setSpreadMode(!spreadMode)} title={spreadMode ? "Single pages" : "Two-page spread"} className={`h-8 w-8 sm:h-9 sm:w-9 flex-shrink-0 hidden sm:flex ${spreadMode ? "bg-accent" : ""}`}><BookOpen className="h-4 w-4" /></Button>
+          {spreadMode && (
+            <Button variant="ghost" size="icon" onClick={() => setSpreadCover(!spreadCover)} title={spreadCover ? "Show first page in a spread" : "Show first page alone as cover"} className={`h-8 w-8 sm:h-9 sm:w-9 flex-shrink-0 hidden sm:flex ${spreadCover ? "bg-accent" : ""}`}><Book className="h-4 w-4" /></Button>
+          )}
+          <Button variant="ghost" size="icon" onClick={() => setSidePanel(sidePanel === 'thumbnails' ? null : 'thumbnails')} title="Thumbnails" className={`h-8 w-8 sm:h-9 sm:w-9 flex-shrink-0 hidden sm:flex ${sidePanel === 'thumbnails' ? "bg-accent" : ""}`}><GalleryVertical className="h-4 w-4" /></Button>
+          <Button variant="ghost" size="icon" onClick={() => setSidePanel(sidePanel === 'outline' ? null : 'outline')} title="Outline" className={`h-8 w-8 sm:h-9 sm:w-9 flex-shrink-0 hidden sm:flex ${sidePanel === 'outline' ? "bg-accent" : ""}`}><ListTree className="h-4 w-4" /></Button>
+          <Button variant="ghost" size="icon" onClick={openFind} title="Find (Ctrl+F)" className={`h-8 w-8 sm:h-9 sm:w-9 flex-shrink-0 ${isFindOpen ? "bg-accent" : ""}`}><Search className="h-4 w-4" /></Button>
           <Button variant="ghost" size="icon" onClick={handleStartOCR} disabled={isOCRProcessing || scrollMode} title={scrollMode ? "OCR disabled in scroll mode" : "Run OCR"} className="h-8 w-8 sm:h-9 sm:w-9 flex-shrink-0 hidden sm:flex"><ScanText className="h-4 w-4" /></Button>
-          <Button variant="ghost" size={isExporting ? "sm" : "icon"} onClick={exportPDF} disabled={isExporting} title="Export with filters" className={`h-8 w-8 sm:h-9 sm:w-9 flex-shrink-0 ${isExporting ? "gap-2" : ""}`}>
-            {isExporting ? <><Loader2 className="h-4 w-4 animate-spin" /><span className="text-xs">{exportProgress}%</span></> : <Download className="h-4 w-4" />}
+          <Button variant="ghost" size={isExporting ? "sm" : "icon"} onClick={openExport} disabled={isExporting} title="Export with filters" className={`h-8 w-8 sm:h-9 sm:w-9 flex-shrink-0 ${isExporting ? "gap-2" : ""}`}>
+            {exportStatus ? <><Loader2 className="h-4 w-4 animate-spin" /><span className="text-xs">{Math.round((exportStatus.done / exportStatus.total) * 100)}%</span></> : <Download className="h-4 w-4" />}
           </Button>
         </div>
       </div>
 
-      {/* PDF Canvas */}
-      <div 
-        ref={scrollMode ? scrollContainerRef : containerRef} 
-        className={`flex-1 overflow-auto bg-muted/50 p-2 sm:p-4 ${!scrollMode && canPan ? (isDragging ? 'cursor-grabbing' : 'cursor-grab') : ''}`}
-        style={{ touchAction: scrollMode ? 'auto' : (canPan ? 'none' : 'pan-y') }}
-        onMouseDown={scrollMode ? undefined : handleMouseDown}
-        onMouseMove={scrollMode ? undefined : handleMouseMove}
-        onMouseUp={scrollMode ? undefined : handleMouseUp}
-        onMouseLeave={scrollMode ? undefined : handleMouseLeave}
-        onTouchStart={scrollMode ? undefined : handleTouchStart}
-        onTouchMove={scrollMode ? undefined : handleTouchMove}
-        onTouchEnd={scrollMode ? undefined : handleTouchEnd}
-      >
-        {scrollMode ? (
-          /* Scroll mode: render all pages vertically */
-          <div className="flex flex-col items-center gap-4">
-            {Array.from({ length: totalPages }, (_, i) => i + 1).map((pageNum) => {
-              const isRendered = renderedPages.has(pageNum);
-              return (
-                <div key={pageNum} className="relative">
-                  <canvas
-                    ref={(el) => {
-                      if (el) {
-                        pageRefs.current.set(pageNum, el);
-                        // Set placeholder CSS dimensions if not yet rendered
-                        if (!isRendered && pageDimensions) {
-                          el.style.width = `${pageDimensions.width}px`;
-                          el.style.height = `${pageDimensions.height}px`;
-                        }
-                      } else {
-                        pageRefs.current.delete(pageNum);
-                      }
-                    }}
-                    style={getFilterStyle()}
-                    className={`rounded-sm shadow-lg ${!isRendered ? 'bg-muted' : ''}`}
-                  />
-                  {/* Loading indicator for unrendered pages */}
-                  {!isRendered && (
-                    <div className="absolute inset-0 flex items-center justify-center">
-                      <Loader2 className="h-6 w-6 animate-spin text-muted-foreground" />
+      {darkMode && darkPageMode === "auto" && documentLooksDark && !darkNoticeDismissed && !isZenMode && (
+        <DarkDocumentNotice
+          onInvertAnyway={() => onDarkPageModeChange?.("invert")}
+          onKeepOriginal={() => onDarkPageModeChange?.("original")}
+          onDismiss={() => setDarkNoticeDismissed(true)}
+        />
+      )}
+
+      {darkMode && exportedFilteredPages.some((pageNum) => isPageFiltered(pageNum)) && !exportedNoticeDismissed && !isZenMode && (
+        <ExportedDocumentNotice
+          onKeepExported={keepExportedColors}
+          onDismiss={() => setExportedNoticeDismissed(true)}
+        />
+      )}
+
+      {(exportStatus || exportError) && (
+        <ExportProgress
+          done={exportStatus?.done ?? 0}
+          total={exportStatus?.total ?? 0}
+          secondsLeft={exportStatus && exportStatus.done > 0
+            ? ((Date.now() - exportStatus.startedAt) / exportStatus.done) * (exportStatus.total - exportStatus.done) / 1000
+            : null}
+          error={exportStatus ? null : exportError}
+          onCancel={cancelExport}
+          onDismiss={() => setExportError(null)}
+        />
+      )}
+
+      {isFindOpen && (
+        <FindBar
+          query={search.query}
+          onQueryChange={search.setQuery}
+          options={search.options}
+          onOptionsChange={search.setOptions}
+          matchCount={search.matches.length}
+          activeIndex={search.activeIndex}
+          isSearching={search.isSearching}
+          error={search.error}
+          focusToken={findFocusToken}
+          onNext={search.findNext}
+          onPrevious={search.findPrevious}
+          onClose={closeFind}
+        />
+      )}
+
+      <div className="flex flex-1 overflow-hidden">
+        {/* Side panel */}
+        {sidePanel && !isZenMode && pdfDoc && (
+          <aside className={`hidden flex-shrink-0 overflow-y-auto border-r border-border bg-card sm:block ${sidePanel === 'thumbnails' ? "w-44" : "w-64"}`}>
+            {sidePanel === 'outline' && <OutlinePanel pdfDoc={pdfDoc} currentPage={currentPage} onNavigate={goToPage} />}
+            {sidePanel === 'thumbnails' && (
+              <ThumbnailRail
+                totalPages={totalPages}
+                currentPage={currentPage}
+                getPageRotation={getPageRotation}
+                getAspectRatio={(pageNum) => {
+                  const size = pageSizes[pageNum - 1] ? getDisplaySize(pageSizes[pageNum - 1], 1, getPageRotation(pageNum)) : null;
+                  return size ? size.width / size.height : 1 / Math.SQRT2;
+                }}
+                getFilterStyle={getPageFilterStyle}
+                getThumbnail={getThumbnail}
+                onNavigate={goToPage}
+              />
+            )}
+          </aside>
+        )}
+
+        {/* PDF Canvas */}
+        <div 
+          ref={scrollMode ? scrollContainerRef : containerRef} 
+          className={`min-w-0 flex-1 overflow-auto bg-muted/50 p-2 sm:p-4 ${!scrollMode && canPan ? (isDragging ? 'cursor-grabbing' : 'cursor-grab') : ''}`}
+          style={{ touchAction: scrollMode ? 'auto' : (canPan ? 'none' : 'pan-y') }}
+          onMouseDown={scrollMode ? undefined : handleMouseDown}
+          onMouseMove={scrollMode ? undefined : handleMouseMove}
+          onMouseUp={scrollMode ? undefined : handleMouseUp}
+          onMouseLeave={scrollMode ? undefined : handleMouseLeave}
+          onTouchStart={scrollMode ? undefined : handleTouchStart}
+          onTouchMove={scrollMode ? undefined : handleTouchMove}
+          onTouchEnd={scrollMode ? undefined : handleTouchEnd}
+        >
+          {scrollMode ? (
+            /* Scroll mode: render all pages vertically, one row per spread */
+            <div ref={contentRef} className="flex flex-col items-center" style={{ gap: SCROLL_ROW_GAP, ...(zoomGesture ? getGestureTransform(zoomGesture) : {}) }}>
+              {spreads.map((row) => (
+                <div key={row[0]} className="flex" style={{ gap: SPREAD_GAP, flexDirection: readingDirection === "rtl" ? "row-reverse" : "row" }}>
+                  {row.map((pageNum) => {
+                    const isRendered = renderedPages.has(pageNum);
+                    return (
+                      <div key={pageNum} className="relative" data-page-num={pageNum}>
+                        <canvas
+                          ref={(el) => {
+                            if (el) {
+                              pageRefs.current.set(pageNum, el);
+                              // CSS dimensions come from the size table, so layout is final before rendering
+                              const placeholder = getPageSize(pageNum);
+                              if (placeholder) {
+                                el.style.width = `${placeholder.width}px`;
+                                el.style.height = `${placeholder.height}px`;
+                              }
+                            } else {
+                              pageRefs.current.delete(pageNum);
+                            }
+                          }}
+                          style={getPageFilterStyle(pageNum)}
+                          className={`rounded-sm shadow-lg ${!isRendered ? 'bg-muted' : ''}`}
+                        />
+                        {isRendered && scale && (
+                          <TileLayer pdfDoc={pdfDoc} pageNum={pageNum} scale={scale} rotation={getPageRotation(pageNum)} dpr={dpr} filterStyle={getPageFilterStyle(pageNum)} containerRef={scrollContainerRef} />
+                        )}
+                        {isRendered && scale && hasUnfilteredLayer(pageNum) && (
+                          <ImageLayer pdfDoc={pdfDoc} pageNum={pageNum} scale={scale} rotation={getPageRotation(pageNum)} dpr={dpr} images={preserveImages} regions={getPageRegions(pageNum)} />
+                        )}
+                        {isRendered && scale && (
+                          <TextLayer pdfDoc={pdfDoc} pageNum={pageNum} scale={scale} rotation={getPageRotation(pageNum)} dpr={dpr} darkMode={darkMode} highlights={getPageHighlights(pageNum)} />
+                        )}
+                        {isRendered && scale && isEditingRegions && (
+                          <RegionEditor pdfDoc={pdfDoc} pageNum={pageNum} scale={scale} rotation={getPageRotation(pageNum)} regions={getPageRegions(pageNum)} onRegionsChange={(regions) => setPageRegions(pageNum, regions)} />
+                        )}
+                        {/* Loading indicator for unrendered pages */}
+                        {!isRendered && (
+                          <div className="absolute inset-0 flex items-center justify-center">
+                            <Loader2 className="h-6 w-6 animate-spin text-muted-foreground" />
+                          </div>
+                        )}
+                      </div>
+                    );
+                  })}
+                </div>
+              ))}
+            </div>
+          ) : (
+            /* Page mode: single page or spread view */
+            <div
+              ref={contentRef}
+              className="flex justify-center"
+              style={{ gap: SPREAD_GAP, flexDirection: readingDirection === "rtl" ? "row-reverse" : "row", ...(zoomGesture ? getGestureTransform(zoomGesture) : {}) }}
+            >
+              {visiblePages.map((pageNum, idx) => (
+                <div key={idx} className="relative" data-page-num={pageNum}>
+                  <canvas ref={idx === 0 ? canvasRef : secondCanvasRef} style={{ ...getPageFilterStyle(pageNum), ...getPageSize(pageNum) }} className="rounded-sm shadow-lg" />
+                  {pdfDoc && scale && (
+                    <TileLayer pdfDoc={pdfDoc} pageNum={pageNum} scale={scale} rotation={getPageRotation(pageNum)} dpr={dpr} filterStyle={getPageFilterStyle(pageNum)} containerRef={containerRef} />
+                  )}
+                  {pdfDoc && scale && hasUnfilteredLayer(pageNum) && (
+                    <ImageLayer pdfDoc={pdfDoc} pageNum={pageNum} scale={scale} rotation={getPageRotation(pageNum)} dpr={dpr} images={preserveImages} regions={getPageRegions(pageNum)} />
+                  )}
+                  {pdfDoc && scale && (
+                    <TextLayer pdfDoc={pdfDoc} pageNum={pageNum} scale={scale} rotation={getPageRotation(pageNum)} dpr={dpr} darkMode={darkMode} highlights={getPageHighlights(pageNum)} />
+                  )}
+                  {/* Link annotations overlay */}
+                  {(linkAnnotations[pageNum]?.length ?? 0) > 0 && (
+                    <div className="absolute inset-0 pointer-events-none">
+                      {linkAnnotations[pageNum].map((link, linkIdx) => (
+                        <button
+                          key={linkIdx}
+                          onClick={() => handleLinkClick(link)}
+                          className="absolute pointer-events-auto cursor-pointer hover:bg-primary/10 transition-colors rounded-sm"
+                          style={{
+                            left: link.rect.x,
+                            top: link.rect.y,
+                            width: link.rect.width,
+                            height: link.rect.height,
+                          }}
+                          title={link.url || `Go to page ${link.dest}`}
+                        />
+                      ))}
                     </div>
                   )}
+                  {pdfDoc && scale && isEditingRegions && (
+                    <RegionEditor pdfDoc={pdfDoc} pageNum={pageNum} scale={scale} rotation={getPageRotation(pageNum)} regions={getPageRegions(pageNum)} onRegionsChange={(regions) => setPageRegions(pageNum, regions)} />
+                  )}
+                  {idx === 0 && (
+                    <OCROverlay isProcessing={isOCRProcessing} progress={ocrProgress} text={ocrText} onClose={clearOCR} canvasWidth={canvasSize.width} canvasHeight={canvasSize.height} />
+                  )}
                 </div>
-              );
-            })}
-          </div>
-        ) : (
-          /* Page mode: single page view */
-          <div className="flex justify-center">
-            <div className="relative">
-              <canvas ref={canvasRef} style={getFilterStyle()} className="rounded-sm shadow-lg" />
-              {/* Link annotations overlay */}
-              {linkAnnotations.length > 0 && (
-                <div 
-                  className="absolute inset-0 pointer-events-none"
-                  style={{ width: canvasSize.width, height: canvasSize.height }}
-                >
-                  {linkAnnotations.map((link, idx) => (
-                    <button
-                      key={idx}
-                      onClick={() => handleLinkClick(link)}
-                      className="absolute pointer-events-auto cursor-pointer hover:bg-primary/10 transition-colors rounded-sm"
-                      style={{
-                        left: link.rect.x,
-                        top: link.rect.y,
-                        width: link.rect.width,
-                        height: link.rect.height,
-                      }}
-                      title={link.url || `Go to page ${link.dest}`}
-                    />
-                  ))}
-                </div>
-              )}
-              <OCROverlay isProcessing={isOCRProcessing} progress={ocrProgress} text={ocrText} onClose={clearOCR} canvasWidth={canvasSize.width} canvasHeight={canvasSize.height} />
+              ))}
             </div>
-          </div>
-        )}
+          )}
+        </div>
       </div>
 
       {/* Bottom Page Navigation */}
       {totalPages > 1 && !toolbarHidden && (
         <div className="flex items-center justify-center gap-2 sm:gap-4 border-t border-border bg-card px-2 sm:px-4 py-2 sm:py-3">
-          <Button variant="outline" size="sm" onClick={goToPrevPage} disabled={currentPage <= 1} className="gap-1 text-xs sm:text-sm"><ChevronLeft className="h-4 w-4" /><span className="hidden sm:inline">Previous</span></Button>
-          <span className="text-xs sm:text-sm text-muted-foreground">{currentPage} / {totalPages}</span>
-          <Button variant="outline" size="sm" onClick={goToNextPage} disabled={currentPage >= totalPages} className="gap-1 text-xs sm:text-sm"><span className="hidden sm:inline">Next</span><ChevronRight className="h-4 w-4" /></Button>
+          <Button variant="outline" size="sm" onClick={goToPrevPage} disabled={!canGoPrev} className="gap-1 text-xs sm:text-sm"><ChevronLeft className={`h-4 w-4 ${chevronClass}`} /><span className="hidden sm:inline">Previous</span></Button>
+          <span className="text-xs sm:text-sm text-muted-foreground">{formatSpreadLabel(visiblePages)} / {totalPages}</span>
+          <Button variant="outline" size="sm" onClick={goToNextPage} disabled={!canGoNext} className="gap-1 text-xs sm:text-sm"><span className="hidden sm:inline">Next</span><ChevronRight className={`h-4 w-4 ${chevronClass}`} /></Button>
         </div>
       )}
+
+      <ExportDialog
+        open={isExportOpen}
+        onOpenChange={setIsExportOpen}
+        totalPages={totalPages}
+        initialOptions={{ ...exportOptions, pages: totalPages > 1 ? `1-${totalPages}` : "1" }}
+        estimateSize={estimateExportSize}
+        onExport={startExport}
+      />
+
+      <PageFiltersDialog
+        open={isPageFiltersOpen}
+        onOpenChange={setIsPageFiltersOpen}
+        totalPages={totalPages}
+        currentPage={currentPage}
+        initialAdjustments={getPageFilters(currentPage).adjustments}
+        onApply={applyPageAdjustments}
+        onClear={clearPageAdjustments}
+      />
     </div>
   );
 }
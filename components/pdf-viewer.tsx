@@ -2,6 +2,10 @@
 
 import dynamic from "next/dynamic";
 import { Loader2 } from "lucide-react";
+import type { AdjustmentKey, FilterPreset, FilterSettings } from "@/lib/filters";
+import type { DarkPageMode, PageClass } from "@/lib/page-analysis";
+import type { ExclusionRegion } from "@/lib/exclusion-regions";
+import type { ReadingDirection } from "@/lib/spreads";
 
 const PDFViewerInner = dynamic(
   () => import("./pdf-viewer-inner").then((mod) => mod.PDFViewerInner),
@@ -18,24 +22,38 @@ const PDFViewerInner = dynamic(
 interface PDFViewerProps {
   pdfSource: string | ArrayBuffer | null;
   pdfFileName: string | null;
-  darkMode: boolean;
-  smartDarkMode: boolean;
-  inversion: number;
-  brightness: number;
-  contrast: number;
-  sepia: number;
+  filters: FilterSettings;
+  presets?: FilterPreset[];
   isZenMode?: boolean;
   initialPage?: number;
   initialScale?: number | null;
   scrollMode?: boolean;
+  maxRenderedPages?: number;
+  readingDirection?: ReadingDirection;
+  pageRotations?: Record<number, number>;
+  darkPageMode?: DarkPageMode;
+  pageInversion?: Record<number, boolean>;
+  pageClasses?: Record<number, PageClass>;
+  pageAdjustments?: Record<number, Partial<Record<AdjustmentKey, number>>>;
+  pageRegions?: Record<number, ExclusionRegion[]>;
   onPageChange?: (current: number, total: number) => void;
   onScaleChange?: (scale: number) => void;
   onScrollModeChange?: (scrollMode: boolean) => void;
+  onReadingDirectionChange?: (direction: ReadingDirection) => void;
+  onPageRotationsChange?: (pageRotations: Record<number, number>) => void;
+  onDarkPageModeChange?: (mode: DarkPageMode) => void;
+  onPageInversionChange?: (pageInversion: Record<number, boolean>) => void;
+  onPageClassesChange?: (pageClasses: Record<number, PageClass>) => void;
+  onPageAdjustmentsChange?: (pageAdjustments: Record<number, Partial<Record<AdjustmentKey, number>>>) => void;
+  onPageRegionsChange?: (pageRegions: Record<number, ExclusionRegion[]>) => void;
   onViewerReady?: (controls: {
     goToPage: (page: number) => void;
     zoomIn: () => void;
     zoomOut: () => void;
     startOCR: () => void;
+    openFind: () => void;
+    openPageFilters: () => void;
+    openExport: () => void;
   }) => void;
 }
 
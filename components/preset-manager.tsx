@@ -4,38 +4,26 @@ import { useState, useEffect } from "react";
 import { Button } from "@/components/ui/button";
 import { Input } from "@/components/ui/input";
 import { Save, Trash2, Check, X, Pencil, ChevronRight, Share2 } from "lucide-react";
-
-interface Preset {
-  id: string;
-  name: string;
-  inversion: number;
-  brightness: number;
-  contrast: number;
-  sepia: number;
-}
+import {
+  applyPreset,
+  createPreset,
+  normalizePresets,
+  writeFilterParams,
+  type FilterPreset,
+  type FilterSettings,
+} from "@/lib/filters";
 
 interface PresetManagerProps {
-  inversion: number;
-  brightness: number;
-  contrast: number;
-  sepia: number;
-  darkMode: boolean;
-  smartDarkMode: boolean;
-  onApplyPreset: (preset: Omit<Preset, "id" | "name">) => void;
+  settings: FilterSettings;
+  onApplyPreset: (preset: FilterPreset) => void;
+  // Keeps other preset lists (command palette, auto filter assignments) in step with edits here
+  onPresetsChange?: (presets: FilterPreset[]) => void;
 }
 
 const STORAGE_KEY = "dark-pdf-presets";
 
-export function PresetManager({
-  inversion,
-  brightness,
-  contrast,
-  sepia,
-  darkMode,
-  smartDarkMode,
-  onApplyPreset,
-}: PresetManagerProps) {
-  const [presets, setPresets] = useState<Preset[]>([]);
+export function PresetManager({ settings, onApplyPreset, onPresetsChange }: PresetManagerProps) {
+  const [presets, setPresets] = useState<FilterPreset[]>([]);
   const [newPresetName, setNewPresetName] = useState("");
   const [editingId, setEditingId] = useState<string | null>(null);
   const [editingName, setEditingName] = useState("");
@@ -46,7 +34,7 @@ export function PresetManager({
     const stored = localStorage.getItem(STORAGE_KEY);
     if (stored) {
       try {
-        setPresets(JSON.parse(stored));
+        setPresets(normalizePresets(JSON.parse(stored)));
       } catch {
         // Invalid JSON, ignore
       }
@@ -54,23 +42,16 @@ export function PresetManager({
   }, []);
 
   // Save presets to localStorage
-  const savePresets = (newPresets: Preset[]) => {
+  const savePresets = (newPresets: FilterPreset[]) => {
     setPresets(newPresets);
+    onPresetsChange?.(newPresets);
     localStorage.setItem(STORAGE_KEY, JSON.stringify(newPresets));
   };
 
   const handleSavePreset = () => {
     if (!newPresetName.trim()) return;
 
-    const newPreset: Preset = {
-      id: Date.now().toString(),
-      name: newPresetName.trim(),
-      inversion,
-      brightness,
-      contrast,
-      sepia,
-    };
-
+    const newPreset = createPreset(newPresetName.trim(), settings);
     savePresets([...presets, newPreset]);
     setNewPresetName("");
   };
@@ -79,7 +60,7 @@ export function PresetManager({
     savePresets(presets.filter((p) => p.id !== id));
   };
 
-  const handleStartEdit = (preset: Preset) => {
+  const handleStartEdit = (preset: FilterPreset) => {
     setEditingId(preset.id);
     setEditingName(preset.name);
   };
@@ -101,15 +82,10 @@ export function PresetManager({
     setEditingName("");
   };
 
-  const handleSharePreset = async (preset: Preset) => {
+  const handleSharePreset = async (preset: FilterPreset) => {
     const params = new URLSearchParams();
-    params.set("dm", darkMode ? "1" : "0");
-    params.set("sdm", smartDarkMode ? "1" : "0");
-    params.set("inv", String(preset.inversion));
-    params.set("br", String(preset.brightness));
-    params.set("ct", String(preset.contrast));
-    params.set("sp", String(preset.sepia));
-    
+    writeFilterParams(params, applyPreset(settings, preset));
+
     const url = `${window.location.origin}${window.location.pathname}?${params.toString()}`;
     await navigator.clipboard.writeText(url);
   };
@@ -0,0 +1,145 @@
+"use client";
+
+import { useEffect, useRef, useState } from "react";
+import { X } from "lucide-react";
+import { getImageRects, type ImageRect } from "@/lib/pdf-images";
+import { MIN_REGION_SIZE, toExclusionRegion, type ExclusionRegion } from "@/lib/exclusion-regions";
+
+interface RegionEditorProps {
+  pdfDoc: any;
+  pageNum: number;
+  scale: number;
+  rotation: number;
+  regions: ExclusionRegion[];
+  onRegionsChange: (regions: ExclusionRegion[]) => void;
+}
+
+interface RegionDrag {
+  mode: "draw" | "move" | "resize";
+  // Region being moved or resized; a drawn region is appended at this index
+  index: number;
+  startX: number;
+  startY: number;
+  origin: ImageRect;
+}
+
+function clamp(value: number, min: number, max: number) {
+  return Math.min(max, Math.max(min, value));
+}
+
+// Draw, move, resize and delete a page's exclusion regions
+export function RegionEditor({ pdfDoc, pageNum, scale, rotation, regions, onRegionsChange }: RegionEditorProps) {
+  const overlayRef = useRef<HTMLDivElement>(null);
+  const [viewport, setViewport] = useState<any>(null);
+  const [drag, setDrag] = useState<RegionDrag | null>(null);
+  const [preview, setPreview] = useState<ImageRect | null>(null);
+
+  useEffect(() => {
+    let cancelled = false;
+    pdfDoc.getPage(pageNum).then((page: any) => {
+      if (!cancelled) setViewport(page.getViewport({ scale, rotation }));
+    });
+    return () => { cancelled = true; };
+  }, [pdfDoc, pageNum, scale, rotation]);
+
+  const rects = viewport ? regions.map((region) => getImageRects([region], viewport)[0]) : [];
+
+  const getPoint = (e: React.PointerEvent) => {
+    const bounds = overlayRef.current!.getBoundingClientRect();
+    return { x: clamp(e.clientX - bounds.left, 0, bounds.width), y: clamp(e.clientY - bounds.top, 0, bounds.height) };
+  };
+
+  const startDrag = (e: React.PointerEvent, mode: RegionDrag["mode"], index: number, origin?: ImageRect) => {
+    if (!viewport || e.button !== 0) return;
+    e.stopPropagation();
+    overlayRef.current!.setPointerCapture(e.pointerId);
+    const { x, y } = getPoint(e);
+    setDrag({ mode, index, startX: x, startY: y, origin: origin ?? { x, y, width: 0, height: 0 } });
+  };
+
+  const handlePointerMove = (e: React.PointerEvent) => {
+    if (!drag) return;
+    const { width: maxWidth, height: maxHeight } = overlayRef.current!.getBoundingClientRect();
+    const { x, y } = getPoint(e);
+    const { origin } = drag;
+    if (drag.mode === "draw") {
+      setPreview({
+        x: Math.min(drag.startX, x),
+        y: Math.min(drag.startY, y),
+        width: Math.abs(x - drag.startX),
+        height: Math.abs(y - drag.startY),
+      });
+    } else if (drag.mode === "move") {
+      setPreview({
+        ...origin,
+        x: clamp(origin.x + x - drag.startX, 0, maxWidth - origin.width),
+        y: clamp(origin.y + y - drag.startY, 0, maxHeight - origin.height),
+      });
+    } else {
+      setPreview({
+        ...origin,
+        width: clamp(origin.width + x - drag.startX, MIN_REGION_SIZE, maxWidth - origin.x),
+        height: clamp(origin.height + y - drag.startY, MIN_REGION_SIZE, maxHeight - origin.y),
+      });
+    }
+  };
+
+  const handlePointerUp = () => {
+    if (drag && preview && viewport && preview.width >= MIN_REGION_SIZE && preview.height >= MIN_REGION_SIZE) {
+      const next = [...regions];
+      next[drag.index] = toExclusionRegion(preview, viewport);
+      onRegionsChange(next);
+    }
+    setDrag(null);
+    setPreview(null);
+  };
+
+  const deleteRegion = (index: number) => onRegionsChange(regions.filter((_, i) => i !== index));
+
+  return (
+    <div
+      ref={overlayRef}
+      className="absolute inset-0 z-10 cursor-crosshair touch-none"
+      onPointerDown={(e) => startDrag(e, "draw", regions.length)}
+      onPointerMove={handlePointerMove}
+      onPointerUp={handlePointerUp}
+      onPointerCancel={handlePointerUp}
+      // Keep the page from panning underneath
+      onMouseDown={(e) => e.stopPropagation()}
+      onTouchStart={(e) => e.stopPropagation()}
+    >
+      {rects.map((rect, index) => {
+        if (!rect) return null;
+        const shown = drag?.index === index && preview ? preview : rect;
+        return (
+          <div
+            key={index}
+            className="absolute cursor-move border-2 border-dashed border-primary bg-primary/10"
+            style={{ left: shown.x, top: shown.y, width: shown.width, height: shown.height }}
+            onPointerDown={(e) => startDrag(e, "move", index, rect)}
+          >
+            <button
+              type="button"
+              title="Delete region"
+              className="absolute -right-2.5 -top-2.5 flex h-5 w-5 items-center justify-center rounded-full bg-primary text-primary-foreground"
+              onPointerDown={(e) => e.stopPropagation()}
+              onClick={() => deleteRegion(index)}
+            >
+              <X className="h-3 w-3" />
+            </button>
+            <div
+              className="absolute -bottom-1.5 -right-1.5 h-3 w-3 cursor-nwse-resize rounded-sm bg-primary"
+              onPointerDown={(e) => startDrag(e, "resize", index, rect)}
+            />
+          </div>
+        );
+      })}
+      {drag?.mode === "draw" && preview && (
+        <div
+          className="absolute border-2 border-dashed border-primary bg-primary/10"
+          style={{ left: preview.x, top: preview.y, width: preview.width, height: preview.height }}
+        />
+      )}
+    </div>
+  );
+}
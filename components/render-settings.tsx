@@ -0,0 +1,32 @@
+"use client";
+
+import { Label } from "@/components/ui/label";
+import { Slider } from "@/components/ui/slider";
+import { MAX_RENDERED_PAGES_RANGE } from "@/lib/page-layout";
+
+interface RenderSettingsProps {
+  maxRenderedPages: number;
+  onMaxRenderedPagesChange: (value: number) => void;
+}
+
+// How many pages scroll mode keeps rasterized; fewer saves memory on long documents
+export function RenderSettings({ maxRenderedPages, onMaxRenderedPagesChange }: RenderSettingsProps) {
+  return (
+    <div className="space-y-4">
+      <h3 className="text-sm font-medium text-foreground">Memory</h3>
+      <div className="space-y-2">
+        <div className="flex items-center justify-between">
+          <Label className="text-sm text-muted-foreground">Pages kept rendered in scroll mode</Label>
+          <span className="text-xs text-muted-foreground">{maxRenderedPages}</span>
+        </div>
+        <Slider
+          value={[maxRenderedPages]}
+          onValueChange={(v) => onMaxRenderedPagesChange(v[0])}
+          min={MAX_RENDERED_PAGES_RANGE.min}
+          max={MAX_RENDERED_PAGES_RANGE.max}
+          step={MAX_RENDERED_PAGES_RANGE.step}
+        />
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,113 @@
+"use client";
+
+import { useEffect, useRef, useState } from "react";
+import {
+  buildPageText,
+  getPageTextContent,
+  getTextItems,
+  getTextItemBox,
+  getTextItemScaleX,
+  getTextRangeRects,
+  type TextItemBox,
+} from "@/lib/pdf-text";
+
+export interface TextHighlight {
+  start: number;
+  end: number;
+  active: boolean;
+}
+
+interface TextLayerProps {
+  pdfDoc: any;
+  pageNum: number;
+  scale: number;
+  rotation: number;
+  dpr: number;
+  darkMode: boolean;
+  highlights?: TextHighlight[];
+}
+
+interface PositionedTextItem extends TextItemBox {
+  scaleX: number;
+}
+
+export function TextLayer({ pdfDoc, pageNum, scale, rotation, dpr, darkMode, highlights = [] }: TextLayerProps) {
+  const [items, setItems] = useState<PositionedTextItem[]>([]);
+  const [itemOffsets, setItemOffsets] = useState<number[]>([]);
+  const [size, setSize] = useState({ width: 0, height: 0 });
+  const activeHighlightRef = useRef<HTMLDivElement>(null);
+
+  useEffect(() => {
+    let cancelled = false;
+    const buildLayer = async () => {
+      try {
+        const [page, textContent] = await Promise.all([pdfDoc.getPage(pageNum), getPageTextContent(pdfDoc, pageNum)]);
+        if (cancelled) return;
+        const viewport = page.getViewport({ scale, rotation });
+        const textItems = getTextItems(textContent);
+        const positioned = textItems.map((item: any) => {
+          const box = getTextItemBox(item, textContent.styles, viewport);
+          return { ...box, scaleX: getTextItemScaleX(box) };
+        });
+        setSize({ width: viewport.width, height: viewport.height });
+        setItems(positioned);
+        setItemOffsets(buildPageText(textItems).itemOffsets);
+      } catch (err) {
+        if (!cancelled) console.error("Error building text layer:", err);
+      }
+    };
+    buildLayer();
+    return () => { cancelled = true; };
+    // dpr is a dependency so font metrics are re-measured after browser zoom
+  }, [pdfDoc, pageNum, scale, rotation, dpr]);
+
+  // Bring the active search match into view once its rectangle exists
+  const activeHighlight = highlights.find((h) => h.active);
+  const activeKey = activeHighlight && items.length > 0 ? `${activeHighlight.start}:${activeHighlight.end}` : null;
+  useEffect(() => {
+    if (activeKey) activeHighlightRef.current?.scrollIntoView({ behavior: "smooth", block: "center", inline: "nearest" });
+  }, [activeKey]);
+
+  return (
+    <div
+      className="pdf-text-layer absolute left-0 top-0 overflow-hidden"
+      data-dark={darkMode ? "" : undefined}
+      style={{ width: size.width, height: size.height }}
+    >
+      {/* Search highlights sit outside the canvas filter, so their colors are never inverted */}
+      {highlights.map((highlight) =>
+        getTextRangeRects(items, itemOffsets, highlight.start, highlight.end).map((rect, idx) => (
+          <div
+            key={`${highlight.start}-${idx}`}
+            ref={highlight.active && idx === 0 ? activeHighlightRef : undefined}
+            className={`pointer-events-none absolute rounded-[1px] ${highlight.active ? "bg-orange-500/60" : "bg-yellow-300/40"}`}
+            style={{
+              left: rect.left,
+              top: rect.top,
+              width: rect.width,
+              height: rect.height,
+              transform: `rotate(${rect.angle}rad) translateX(${rect.offset}px)`,
+              transformOrigin: "0 0",
+            }}
+          />
+        ))
+      )}
+      {items.map((item, idx) => (
+        item.str ? (
+          <span
+            key={idx}
+            style={{
+              left: item.left,
+              top: item.top,
+              fontSize: item.height,
+              fontFamily: item.fontFamily,
+              transform: `rotate(${item.angle}rad) scaleX(${item.scaleX})`,
+            }}
+          >
+            {item.str}
+          </span>
+        ) : item.hasEOL ? <br key={idx} /> : null
+      ))}
+    </div>
+  );
+}
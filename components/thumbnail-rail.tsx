@@ -0,0 +1,141 @@
+"use client";
+
+import { useEffect, useRef, useState } from "react";
+import { Loader2 } from "lucide-react";
+import { THUMBNAIL_WIDTH } from "@/hooks/use-thumbnails";
+
+interface ThumbnailRailProps {
+  totalPages: number;
+  currentPage: number;
+  getPageRotation: (pageNum: number) => number;
+  // Width / height of a page as displayed, used to size placeholders
+  getAspectRatio: (pageNum: number) => number;
+  // Dark mode filter for a page's thumbnail, matching the page itself
+  getFilterStyle: (pageNum: number) => React.CSSProperties;
+  getThumbnail: (pageNum: number, rotation: number) => Promise<ImageBitmap>;
+  onNavigate: (pageNum: number) => void;
+}
+
+interface ThumbnailProps {
+  pageNum: number;
+  rotation: number;
+  isVisible: boolean;
+  isCurrent: boolean;
+  aspectRatio: number;
+  filterStyle: React.CSSProperties;
+  getThumbnail: (pageNum: number, rotation: number) => Promise<ImageBitmap>;
+  onNavigate: (pageNum: number) => void;
+  registerRef: (pageNum: number, el: HTMLButtonElement | null) => void;
+}
+
+function Thumbnail({ pageNum, rotation, isVisible, isCurrent, aspectRatio, filterStyle, getThumbnail, onNavigate, registerRef }: ThumbnailProps) {
+  const canvasRef = useRef<HTMLCanvasElement>(null);
+  const [bitmap, setBitmap] = useState<ImageBitmap | null>(null);
+
+  // Only off-screen placeholders stay empty; visible thumbnails load from the shared cache
+  useEffect(() => {
+    if (!isVisible) {
+      setBitmap(null);
+      return;
+    }
+    let cancelled = false;
+    getThumbnail(pageNum, rotation)
+      .then((result) => { if (!cancelled) setBitmap(result); })
+      .catch((err) => console.error("Error rendering thumbnail:", err));
+    return () => { cancelled = true; };
+  }, [isVisible, pageNum, rotation, getThumbnail]);
+
+  // The canvas mounts with the bitmap, so draw once both are there
+  useEffect(() => {
+    const canvas = canvasRef.current;
+    const context = canvas?.getContext("2d");
+    if (!bitmap || !canvas || !context) return;
+    canvas.width = bitmap.width;
+    canvas.height = bitmap.height;
+    context.drawImage(bitmap, 0, 0);
+  }, [bitmap]);
+
+  return (
+    <button
+      ref={(el) => registerRef(pageNum, el)}
+      data-page={pageNum}
+      onClick={() => onNavigate(pageNum)}
+      className="flex flex-col items-center gap-1"
+      title={`Page ${pageNum}`}
+    >
+      <div
+        className={`relative overflow-hidden rounded-sm bg-muted shadow ring-offset-2 ring-offset-card transition-shadow ${isCurrent ? "ring-2 ring-primary" : "hover:ring-1 hover:ring-border"}`}
+        style={{ width: THUMBNAIL_WIDTH, height: bitmap ? undefined : THUMBNAIL_WIDTH / aspectRatio }}
+      >
+        {bitmap ? (
+          <canvas ref={canvasRef} style={{ ...filterStyle, width: THUMBNAIL_WIDTH }} className="block" />
+        ) : isVisible ? (
+          <div className="absolute inset-0 flex items-center justify-center">
+            <Loader2 className="h-4 w-4 animate-spin text-muted-foreground" />
+          </div>
+        ) : null}
+      </div>
+      <span className={`text-xs ${isCurrent ? "text-foreground" : "text-muted-foreground"}`}>{pageNum}</span>
+    </button>
+  );
+}
+
+export function ThumbnailRail({ totalPages, currentPage, getPageRotation, getAspectRatio, getFilterStyle, getThumbnail, onNavigate }: ThumbnailRailProps) {
+  const containerRef = useRef<HTMLDivElement>(null);
+  const itemRefs = useRef<Map<number, HTMLButtonElement>>(new Map());
+  const [visiblePages, setVisiblePages] = useState<Set<number>>(new Set());
+
+  const registerRef = (pageNum: number, el: HTMLButtonElement | null) => {
+    if (el) itemRefs.current.set(pageNum, el);
+    else itemRefs.current.delete(pageNum);
+  };
+
+  // Lazy load thumbnails using IntersectionObserver, same as scroll mode pages
+  useEffect(() => {
+    const observer = new IntersectionObserver(
+      (entries) => {
+        setVisiblePages((prev) => {
+          const next = new Set(prev);
+          entries.forEach((entry) => {
+            const pageNum = parseInt(entry.target.getAttribute('data-page') || '0', 10);
+            if (pageNum <= 0) return;
+            if (entry.isIntersecting) next.add(pageNum);
+            else next.delete(pageNum);
+          });
+          return next;
+        });
+      },
+      {
+        root: containerRef.current,
+        rootMargin: '300px 0px', // Pre-load thumbnails just outside the rail
+        threshold: 0,
+      }
+    );
+    itemRefs.current.forEach((el) => observer.observe(el));
+    return () => observer.disconnect();
+  }, [totalPages]);
+
+  // Keep the current page's thumbnail in view while reading
+  useEffect(() => {
+    itemRefs.current.get(currentPage)?.scrollIntoView({ block: "nearest" });
+  }, [currentPage]);
+
+  return (
+    <div ref={containerRef} className="flex h-full flex-col items-center gap-3 overflow-y-auto p-3">
+      {Array.from({ length: totalPages }, (_, i) => i + 1).map((pageNum) => (
+        <Thumbnail
+          key={pageNum}
+          pageNum={pageNum}
+          rotation={getPageRotation(pageNum)}
+          isVisible={visiblePages.has(pageNum)}
+          isCurrent={pageNum === currentPage}
+          aspectRatio={getAspectRatio(pageNum)}
+          filterStyle={getFilterStyle(pageNum)}
+          getThumbnail={getThumbnail}
+          onNavigate={onNavigate}
+          registerRef={registerRef}
+        />
+      ))}
+    </div>
+  );
+}
@@ -0,0 +1,154 @@
+"use client";
+
+import { useEffect, useRef, useState } from "react";
+import { getVisibleTiles, needsTiles, type Tile } from "@/lib/tiles";
+import type { PageSize } from "@/lib/page-layout";
+
+interface TileLayerProps {
+  pdfDoc: any;
+  pageNum: number;
+  scale: number;
+  rotation: number;
+  dpr: number;
+  filterStyle: React.CSSProperties;
+  // Scrollable element the page sits in; tiles are rendered for the part of the page it shows
+  containerRef: React.RefObject<HTMLElement | null>;
+}
+
+interface PageTileProps {
+  pdfDoc: any;
+  pageNum: number;
+  scale: number;
+  rotation: number;
+  dpr: number;
+  filterStyle: React.CSSProperties;
+  tile: Tile;
+}
+
+function PageTile({ pdfDoc, pageNum, scale, rotation, dpr, filterStyle, tile }: PageTileProps) {
+  const canvasRef = useRef<HTMLCanvasElement>(null);
+  const [isReady, setIsReady] = useState(false);
+
+  useEffect(() => {
+    let cancelled = false;
+    let renderTask: any = null;
+    setIsReady(false);
+    const renderTile = async () => {
+      try {
+        const page = await pdfDoc.getPage(pageNum);
+        const canvas = canvasRef.current;
+        const context = canvas?.getContext("2d");
+        if (cancelled || !canvas || !context) return;
+        const viewport = page.getViewport({ scale, rotation });
+        canvas.width = Math.ceil(tile.width * dpr);
+        canvas.height = Math.ceil(tile.height * dpr);
+        // Shift the page so only this tile's region lands on the canvas
+        renderTask = page.render({
+          canvasContext: context,
+          viewport,
+          transform: [dpr, 0, 0, dpr, -tile.x * dpr, -tile.y * dpr],
+        });
+        await renderTask.promise;
+        if (!cancelled) setIsReady(true);
+      } catch (err: any) {
+        if (err?.name !== 'RenderingCancelledException') console.error("Error rendering tile:", err);
+      }
+    };
+    renderTile();
+    return () => {
+      cancelled = true;
+      renderTask?.cancel();
+    };
+  }, [pdfDoc, pageNum, scale, rotation, dpr, tile.x, tile.y, tile.width, tile.height]);
+
+  return (
+    <canvas
+      ref={canvasRef}
+      className="absolute"
+      style={{
+        ...filterStyle,
+        left: tile.x,
+        top: tile.y,
+        width: tile.width,
+        height: tile.height,
+        // Keep the backdrop visible until the tile has finished drawing
+        opacity: isReady ? 1 : 0,
+      }}
+    />
+  );
+}
+
+// Full-resolution tiles over a page's low-resolution backdrop canvas, for zoom levels where one canvas would be too large
+export function TileLayer({ pdfDoc, pageNum, scale, rotation, dpr, filterStyle, containerRef }: TileLayerProps) {
+  const layerRef = useRef<HTMLDivElement>(null);
+  const [size, setSize] = useState<PageSize | null>(null);
+  const [tiles, setTiles] = useState<Tile[]>([]);
+
+  useEffect(() => {
+    let cancelled = false;
+    pdfDoc.getPage(pageNum)
+      .then((page: any) => {
+        if (cancelled) return;
+        const viewport = page.getViewport({ scale, rotation });
+        setSize({ width: viewport.width, height: viewport.height });
+      })
+      .catch((err: any) => console.error("Error measuring page:", err));
+    return () => { cancelled = true; };
+  }, [pdfDoc, pageNum, scale, rotation]);
+
+  const isTiled = size !== null && needsTiles(size.width, size.height, dpr);
+
+  // Follow the scroll position so only tiles near the visible area exist
+  useEffect(() => {
+    const container = containerRef.current;
+    if (!isTiled || !size || !container) {
+      setTiles([]);
+      return;
+    }
+    let frame = 0;
+    const update = () => {
+      frame = 0;
+      const layer = layerRef.current;
+      if (!layer) return;
+      const next = getVisibleTiles(layer.getBoundingClientRect(), container.getBoundingClientRect(), size.width, size.height);
+      setTiles((prev) =>
+        prev.length === next.length && prev.every((tile, idx) => tile.key === next[idx].key) ? prev : next
+      );
+    };
+    const scheduleUpdate = () => {
+      if (!frame) frame = requestAnimationFrame(update);
+    };
+    update();
+    container.addEventListener("scroll", scheduleUpdate, { passive: true });
+    const resizeObserver = new ResizeObserver(scheduleUpdate);
+    resizeObserver.observe(container);
+    return () => {
+      if (frame) cancelAnimationFrame(frame);
+      container.removeEventListener("scroll", scheduleUpdate);
+      resizeObserver.disconnect();
+    };
+  }, [isTiled, size, containerRef]);
+
+  if (!isTiled || !size) return null;
+
+  return (
+    <div
+      ref={layerRef}
+      className="pointer-events-none absolute left-0 top-0 overflow-hidden rounded-sm"
+      style={{ width: size.width, height: size.height }}
+    >
+      {tiles.map((tile) => (
+        <PageTile
+          key={tile.key}
+          pdfDoc={pdfDoc}
+          pageNum={pageNum}
+          scale={scale}
+          rotation={rotation}
+          dpr={dpr}
+          filterStyle={filterStyle}
+          tile={tile}
+        />
+      ))}
+    </div>
+  );
+}
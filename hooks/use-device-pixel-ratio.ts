@@ -0,0 +1,17 @@
+"use client";
+
+import { useEffect, useState } from "react";
+
+// Track window.devicePixelRatio, which changes with browser zoom or when moving between displays
+export function useDevicePixelRatio(): number {
+  const [dpr, setDpr] = useState(() => (typeof window !== "undefined" ? window.devicePixelRatio || 1 : 1));
+
+  useEffect(() => {
+    const query = window.matchMedia(`(resolution: ${dpr}dppx)`);
+    const handleChange = () => setDpr(window.devicePixelRatio || 1);
+    query.addEventListener("change", handleChange);
+    return () => query.removeEventListener("change", handleChange);
+  }, [dpr]);
+
+  return dpr;
+}
@@ -1,6 +1,15 @@
 "use client";
 
-import { useState, useCallback, useRef } from "react";
+import { useState, useCallback, useEffect, useRef } from "react";
+
+export interface OCRWord {
+  text: string;
+  // Left end of the word's baseline, the word's width and its line's height, in canvas pixels
+  x: number;
+  y: number;
+  width: number;
+  size: number;
+}
 
 interface UseOCRResult {
   isProcessing: boolean;
@@ -9,6 +18,11 @@ interface UseOCRResult {
   error: string | null;
   runOCR: (canvas: HTMLCanvasElement) => Promise<string | null>;
   clearResult: () => void;
+  // Word boxes of a page, without touching the OCR panel state; used for export text layers
+  // Aborting the signal rejects with its reason; release the worker to stop the recognition itself
+  recognizeWords: (canvas: HTMLCanvasElement, signal?: AbortSignal) => Promise<OCRWord[]>;
+  // Stop the worker recognizeWords keeps between pages
+  releaseWordWorker: () => Promise<void>;
 }
 
 export function useOCR(): UseOCRResult {
@@ -17,6 +31,7 @@ export function useOCR(): UseOCRResult {
   const [text, setText] = useState<string | null>(null);
   const [error, setError] = useState<string | null>(null);
   const workerRef = useRef<any>(null);
+  const wordWorkerRef = useRef<Promise<any> | null>(null);
 
   const runOCR = useCallback(async (canvas: HTMLCanvasElement): Promise<string | null> => {
     setIsProcessing(true);
@@ -68,6 +83,53 @@ export function useOCR(): UseOCRResult {
     setProgress(0);
   }, []);
 
+  const recognizeWords = useCallback(async (canvas: HTMLCanvasElement, signal?: AbortSignal): Promise<OCRWord[]> => {
+    // Tesseract's terminate() leaves a running recognize() pending forever, so aborting races it instead
+    const aborted = new Promise<never>((_, reject) => {
+      if (!signal) return;
+      if (signal.aborted) reject(signal.reason);
+      else signal.addEventListener("abort", () => reject(signal.reason), { once: true });
+    });
+    // Aborting after the words are back isn't an error
+    aborted.catch(() => {});
+    if (!wordWorkerRef.current) {
+      const created = import("tesseract.js").then((Tesseract) => Tesseract.createWorker("eng"));
+      created.catch(() => { if (wordWorkerRef.current === created) wordWorkerRef.current = null; });
+      wordWorkerRef.current = created;
+    }
+    const worker = await Promise.race([wordWorkerRef.current, aborted]);
+    const { data } = await Promise.race([worker.recognize(canvas, {}, { blocks: true }), aborted]);
+
+    const words: OCRWord[] = [];
+    for (const block of data.blocks ?? []) {
+      for (const paragraph of block.paragraphs) {
+        for (const line of paragraph.lines) {
+          const { baseline, bbox } = line;
+          const slope = baseline.x1 > baseline.x0 ? (baseline.y1 - baseline.y0) / (baseline.x1 - baseline.x0) : 0;
+          for (const word of line.words) {
+            if (!word.text.trim()) continue;
+            words.push({
+              text: word.text,
+              x: word.bbox.x0,
+              y: baseline.x1 > baseline.x0 ? baseline.y0 + slope * (word.bbox.x0 - baseline.x0) : word.bbox.y1,
+              width: word.bbox.x1 - word.bbox.x0,
+              size: bbox.y1 - bbox.y0,
+            });
+          }
+        }
+      }
+    }
+    return words;
+  }, []);
+
+  const releaseWordWorker = useCallback(async () => {
+    const created = wordWorkerRef.current;
+    wordWorkerRef.current = null;
+    if (created) await created.then((worker) => worker.terminate()).catch(() => {});
+  }, []);
+
+  useEffect(() => () => { releaseWordWorker(); }, [releaseWordWorker]);
+
   return {
     isProcessing,
     progress,
@@ -75,5 +137,7 @@ export function useOCR(): UseOCRResult {
     error,
     runOCR,
     clearResult,
+    recognizeWords,
+    releaseWordWorker,
   };
 }
@@ -0,0 +1,107 @@
+"use client";
+
+import { useState, useEffect, useCallback, useRef } from "react";
+import { buildPageText, buildSearchRegExp, findInText, getPageTextContent, getTextItems, type SearchOptions } from "@/lib/pdf-text";
+
+export interface SearchMatch {
+  pageNum: number;
+  start: number;
+  end: number;
+}
+
+interface UsePdfSearchResult {
+  query: string;
+  setQuery: (query: string) => void;
+  options: SearchOptions;
+  setOptions: (options: SearchOptions) => void;
+  matches: SearchMatch[];
+  activeIndex: number;
+  activeMatch: SearchMatch | null;
+  isSearching: boolean;
+  error: string | null;
+  findNext: () => void;
+  findPrevious: () => void;
+  clearSearch: () => void;
+}
+
+export function usePdfSearch(pdfDoc: any, totalPages: number): UsePdfSearchResult {
+  const [query, setQuery] = useState("");
+  const [options, setOptions] = useState<SearchOptions>({ caseSensitive: false, wholeWord: false, regex: false });
+  const [matches, setMatches] = useState<SearchMatch[]>([]);
+  const [activeIndex, setActiveIndex] = useState(-1);
+  const [isSearching, setIsSearching] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  // Incremented for every new search so stale page scans stop early
+  const searchIdRef = useRef(0);
+
+  useEffect(() => {
+    const searchId = ++searchIdRef.current;
+    setError(null);
+
+    let regexp: RegExp | null = null;
+    try {
+      regexp = buildSearchRegExp(query, options);
+    } catch {
+      setError("Invalid regular expression");
+    }
+    if (!pdfDoc || !regexp) {
+      setMatches([]);
+      setActiveIndex(-1);
+      setIsSearching(false);
+      return;
+    }
+
+    // Debounce so typing doesn't scan the whole document on every keystroke
+    const timeoutId = setTimeout(async () => {
+      setIsSearching(true);
+      const found: SearchMatch[] = [];
+      for (let pageNum = 1; pageNum <= totalPages; pageNum++) {
+        try {
+          const textContent = await getPageTextContent(pdfDoc, pageNum);
+          if (searchId !== searchIdRef.current) return;
+          const { text } = buildPageText(getTextItems(textContent));
+          for (const range of findInText(text, regexp)) {
+            found.push({ pageNum, ...range });
+          }
+        } catch (err) {
+          console.error("Error searching page:", err);
+        }
+      }
+      if (searchId !== searchIdRef.current) return;
+      setMatches(found);
+      setActiveIndex(found.length > 0 ? 0 : -1);
+      setIsSearching(false);
+    }, 200);
+
+    return () => clearTimeout(timeoutId);
+  }, [pdfDoc, totalPages, query, options]);
+
+  const findNext = useCallback(() => {
+    if (matches.length === 0) return;
+    setActiveIndex((prev) => (prev + 1) % matches.length);
+  }, [matches.length]);
+
+  const findPrevious = useCallback(() => {
+    if (matches.length === 0) return;
+    setActiveIndex((prev) => (prev - 1 + matches.length) % matches.length);
+  }, [matches.length]);
+
+  const clearSearch = useCallback(() => {
+    setQuery("");
+  }, []);
+
+  return {
+    query,
+    setQuery,
+    options,
+    setOptions,
+    matches,
+    activeIndex,
+    activeMatch: activeIndex >= 0 ? matches[activeIndex] ?? null : null,
+    isSearching,
+    error,
+    findNext,
+    findPrevious,
+    clearSearch,
+  };
+}
@@ -0,0 +1,181 @@
+"use client";
+
+import { useEffect, useCallback, useRef } from "react";
+import { extractLinks, type LinkAnnotation } from "@/lib/pdf-navigation";
+import { getBackdropPixelRatio } from "@/lib/tiles";
+
+// Upper bound for cached bitmap memory; the least recently used pages are evicted first
+const RENDER_CACHE_MAX_BYTES = 192 * 1024 * 1024;
+
+export interface RenderedPage {
+  bitmap: ImageBitmap;
+  // Display size in CSS pixels
+  width: number;
+  height: number;
+  links: LinkAnnotation[];
+}
+
+// A pinned cache entry; release it once the bitmap has been drawn or is no longer wanted
+export interface PageHandle {
+  page: Promise<RenderedPage>;
+  release: () => void;
+}
+
+interface RenderState {
+  task: any;
+  cancelled: boolean;
+}
+
+interface CacheEntry {
+  page: Promise<RenderedPage>;
+  bytes: number;
+  // Callers waiting on or drawing this entry; pinned entries are never evicted
+  pins: number;
+  render: RenderState;
+}
+
+async function renderPageBitmap(pdfDoc: any, pageNum: number, scale: number, rotation: number, dpr: number, render: RenderState): Promise<RenderedPage> {
+  const page = await pdfDoc.getPage(pageNum);
+  if (render.cancelled) throw new Error("Rendering cancelled");
+  const viewport = page.getViewport({ scale, rotation });
+  // Deep-zoom pages cache their low-resolution backdrop; tiles are drawn separately
+  const pixelRatio = getBackdropPixelRatio(viewport.width, viewport.height, dpr);
+  const canvas = document.createElement("canvas");
+  canvas.width = viewport.width * pixelRatio;
+  canvas.height = viewport.height * pixelRatio;
+  const context = canvas.getContext("2d")!;
+  context.scale(pixelRatio, pixelRatio);
+  render.task = page.render({ canvasContext: context, viewport });
+  try {
+    await render.task.promise;
+  } finally {
+    render.task = null;
+  }
+  const [bitmap, links] = await Promise.all([createImageBitmap(canvas), extractLinks(pdfDoc, page, viewport)]);
+  return { bitmap, width: viewport.width, height: viewport.height, links };
+}
+
+function whenIdle(callback: () => void): () => void {
+  if (typeof window.requestIdleCallback === "function") {
+    const handle = window.requestIdleCallback(callback);
+    return () => window.cancelIdleCallback(handle);
+  }
+  const timeout = setTimeout(callback, 200);
+  return () => clearTimeout(timeout);
+}
+
+function cancelEntry(entry: CacheEntry) {
+  entry.render.cancelled = true;
+  entry.render.task?.cancel();
+}
+
+function releaseEntry(entry: CacheEntry) {
+  cancelEntry(entry);
+  entry.page.then((rendered) => rendered.bitmap.close()).catch(() => {});
+}
+
+// Rendered page bitmaps and their links, keyed by page, scale, rotation and DPR, so page turns can reuse them.
+// Callers pin the entries they are waiting on, and only unpinned bitmaps are closed.
+export function useRenderCache(pdfDoc: any) {
+  const cacheRef = useRef<Map<string, CacheEntry>>(new Map());
+
+  useEffect(() => {
+    const cache = new Map<string, CacheEntry>();
+    cacheRef.current = cache;
+    return () => {
+      cache.forEach(releaseEntry);
+      cache.clear();
+    };
+  }, [pdfDoc]);
+
+  const evict = (cache: Map<string, CacheEntry>) => {
+    let total = 0;
+    cache.forEach((entry) => { total += entry.bytes; });
+    // Map iteration order is insertion order, and hits are re-inserted, so the first entries are the oldest
+    for (const [key, entry] of cache) {
+      if (total <= RENDER_CACHE_MAX_BYTES) break;
+      if (entry.pins > 0) continue;
+      cache.delete(key);
+      total -= entry.bytes;
+      releaseEntry(entry);
+    }
+  };
+
+  // Pins the entry until the handle is released; releasing the last pin of a page that is still
+  // rendering cancels it, so superseded renders don't keep the renderer busy
+  const acquirePage = useCallback((pageNum: number, scale: number, rotation: number, dpr: number): PageHandle => {
+    const cache = cacheRef.current;
+    const key = `${pageNum}:${scale}:${rotation}:${dpr}`;
+    let entry = cache.get(key);
+    if (entry) {
+      cache.delete(key);
+      cache.set(key, entry);
+    } else {
+      const render: RenderState = { task: null, cancelled: false };
+      const created: CacheEntry = { page: renderPageBitmap(pdfDoc, pageNum, scale, rotation, dpr, render), bytes: 0, pins: 0, render };
+      cache.set(key, created);
+      created.page.then(
+        (rendered) => {
+          // The document changed while this page was rendering
+          if (cacheRef.current !== cache) {
+            rendered.bitmap.close();
+            return;
+          }
+          created.bytes = rendered.bitmap.width * rendered.bitmap.height * 4;
+          evict(cache);
+        },
+        () => { if (cache.get(key) === created) cache.delete(key); },
+      );
+      entry = created;
+    }
+
+    const pinned = entry;
+    pinned.pins++;
+    let released = false;
+    return {
+      page: pinned.page,
+      release: () => {
+        if (released) return;
+        released = true;
+        pinned.pins--;
+        if (pinned.pins > 0) return;
+        if (pinned.bytes === 0) {
+          cancelEntry(pinned);
+          if (cache.get(key) === pinned) cache.delete(key);
+        } else {
+          evict(cache);
+        }
+      },
+    };
+  }, [pdfDoc]);
+
+  // Render pages into the cache once the browser is idle; returns a function that cancels what hasn't started
+  const prefetch = useCallback((pages: { pageNum: number; rotation: number }[], scale: number, dpr: number): () => void => {
+    let cancelled = false;
+    let current: PageHandle | null = null;
+    const cancelIdle = whenIdle(async () => {
+      for (const { pageNum, rotation } of pages) {
+        if (cancelled) return;
+        const handle = acquirePage(pageNum, scale, rotation, dpr);
+        current = handle;
+        try {
+          await handle.page;
+        } catch (err) {
+          if (!cancelled) console.error("Error prefetching page:", err);
+        } finally {
+          handle.release();
+        }
+      }
+    });
+    return () => {
+      cancelled = true;
+      cancelIdle();
+      // Let go of the page in flight only after the effects of this commit have run, so a page turn
+      // to that page pins it first and picks up the half-finished render instead of restarting it
+      const pending = current;
+      if (pending) queueMicrotask(pending.release);
+    };
+  }, [acquirePage]);
+
+  return { acquirePage, prefetch };
+}
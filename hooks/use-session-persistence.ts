@@ -1,18 +1,28 @@
 "use client";
 
 import { useEffect, useCallback } from "react";
+import type { AdjustmentKey, FilterSettings } from "@/lib/filters";
+import type { DarkPageMode, PageClass } from "@/lib/page-analysis";
+import type { ExclusionRegion } from "@/lib/exclusion-regions";
+import type { ReadingDirection } from "@/lib/spreads";
 
 interface SessionData {
   pageNum: number;
   zoom: number;
-  filters: {
-    darkMode: boolean;
-    smartDarkMode: boolean;
-    inversion: number;
-    brightness: number;
-    contrast: number;
-    sepia: number;
-  };
+  // Sessions saved before the filter module stored adjustments flat; normalizeFilterSettings reads both
+  filters: FilterSettings;
+  readingDirection?: ReadingDirection;
+  // Extra clockwise rotation (degrees) for individual pages, keyed by page number
+  pageRotations?: Record<number, number>;
+  // Treatment of pages that already have a dark background, and per-page overrides (true = filter the page)
+  darkPageMode?: DarkPageMode;
+  pageInversion?: Record<number, boolean>;
+  // Page classes chosen by hand for auto filters
+  pageClasses?: Record<number, PageClass>;
+  // Filter adjustments overridden for single pages
+  pageAdjustments?: Record<number, Partial<Record<AdjustmentKey, number>>>;
+  // Rectangles per page kept in their original colors, in PDF user space
+  pageRegions?: Record<number, ExclusionRegion[]>;
 }
 
 const SESSION_STORAGE_KEY = "dark-pdf-sessions";
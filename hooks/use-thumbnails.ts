@@ -0,0 +1,53 @@
+"use client";
+
+import { useEffect, useCallback, useRef } from "react";
+
+export const THUMBNAIL_WIDTH = 120;
+
+async function renderThumbnail(pdfDoc: any, pageNum: number, rotation: number): Promise<ImageBitmap> {
+  const page = await pdfDoc.getPage(pageNum);
+  const dpr = window.devicePixelRatio || 1;
+  const baseViewport = page.getViewport({ scale: 1, rotation });
+  const viewport = page.getViewport({ scale: (THUMBNAIL_WIDTH * dpr) / baseViewport.width, rotation });
+  const canvas = document.createElement("canvas");
+  canvas.width = Math.ceil(viewport.width);
+  canvas.height = Math.ceil(viewport.height);
+  const context = canvas.getContext("2d")!;
+  await page.render({ canvasContext: context, viewport }).promise;
+  return createImageBitmap(canvas);
+}
+
+// Thumbnails are rendered one at a time and cached per document, independent of the main zoom level
+export function useThumbnails(pdfDoc: any) {
+  const cacheRef = useRef<Map<string, Promise<ImageBitmap>>>(new Map());
+  const queueRef = useRef<Promise<unknown>>(Promise.resolve());
+
+  // Release cached bitmaps when the document changes or the viewer unmounts
+  useEffect(() => {
+    const cache = new Map<string, Promise<ImageBitmap>>();
+    cacheRef.current = cache;
+    return () => {
+      cache.forEach((bitmap) => bitmap.then((b) => b.close()).catch(() => {}));
+      cache.clear();
+    };
+  }, [pdfDoc]);
+
+  const getThumbnail = useCallback((pageNum: number, rotation: number): Promise<ImageBitmap> => {
+    const cache = cacheRef.current;
+    const key = `${pageNum}:${rotation}`;
+    const cached = cache.get(key);
+    if (cached) return cached;
+
+    const task = queueRef.current.then(() => renderThumbnail(pdfDoc, pageNum, rotation));
+    queueRef.current = task.catch(() => {});
+    cache.set(key, task);
+    task.then(
+      // The document changed while this thumbnail was rendering
+      (bitmap) => { if (cacheRef.current !== cache) bitmap.close(); },
+      () => cache.delete(key),
+    );
+    return task;
+  }, [pdfDoc]);
+
+  return { getThumbnail };
+}
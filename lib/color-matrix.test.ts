@@ -0,0 +1,121 @@
+import { describe, expect, it } from "vitest";
+import {
+  applyColorMatrix,
+  brightnessMatrix,
+  contrastMatrix,
+  grayscaleMatrix,
+  hueRotateMatrix,
+  invertMatrix,
+  saturateMatrix,
+  sepiaMatrix,
+  type ColorMatrix,
+  type Rgb,
+} from "@/lib/color-matrix";
+
+// The spec's shorthand equivalents (https://drafts.fxtf.org/filter-effects/#ShorthandEquivalents),
+// written the way the spec states them rather than the way color-matrix.ts lays them out
+
+// feComponentTransfer type="table" tableValues="[amount] (1 - amount)"
+const specInvert = (amount: number, c: number) => amount + c * (1 - amount - amount);
+// type="linear" slope="[amount]"
+const specBrightness = (amount: number, c: number) => amount * c;
+// type="linear" slope="[amount]" intercept="-(0.5 * [amount]) + 0.5"
+const specContrast = (amount: number, c: number) => amount * c - 0.5 * amount + 0.5;
+
+function specSepia(amount: number): number[][] {
+  const a = 1 - amount;
+  return [
+    [0.393 + 0.607 * a, 0.769 - 0.769 * a, 0.189 - 0.189 * a],
+    [0.349 - 0.349 * a, 0.686 + 0.314 * a, 0.168 - 0.168 * a],
+    [0.272 - 0.272 * a, 0.534 - 0.534 * a, 0.131 + 0.869 * a],
+  ];
+}
+
+function specGrayscale(amount: number): number[][] {
+  const a = 1 - amount;
+  return [
+    [0.2126 + 0.7874 * a, 0.7152 - 0.7152 * a, 0.0722 - 0.0722 * a],
+    [0.2126 - 0.2126 * a, 0.7152 + 0.2848 * a, 0.0722 - 0.0722 * a],
+    [0.2126 - 0.2126 * a, 0.7152 - 0.7152 * a, 0.0722 + 0.9278 * a],
+  ];
+}
+
+// feColorMatrix type="saturate"
+function specSaturate(s: number): number[][] {
+  return [
+    [0.213 + 0.787 * s, 0.715 - 0.715 * s, 0.072 - 0.072 * s],
+    [0.213 - 0.213 * s, 0.715 + 0.285 * s, 0.072 - 0.072 * s],
+    [0.213 - 0.213 * s, 0.715 - 0.715 * s, 0.072 + 0.928 * s],
+  ];
+}
+
+// feColorMatrix type="hueRotate": base + cos(a) * cosine part + sin(a) * sine part
+function specHueRotate(degrees: number): number[][] {
+  const rad = (degrees * Math.PI) / 180;
+  const base = [[0.213, 0.715, 0.072], [0.213, 0.715, 0.072], [0.213, 0.715, 0.072]];
+  const cosPart = [[0.787, -0.715, -0.072], [-0.213, 0.285, -0.072], [-0.213, -0.715, 0.928]];
+  const sinPart = [[-0.213, -0.715, 0.928], [0.143, 0.14, -0.283], [-0.787, 0.715, 0.072]];
+  return base.map((row, i) => row.map((v, j) => v + Math.cos(rad) * cosPart[i][j] + Math.sin(rad) * sinPart[i][j]));
+}
+
+function expectMatrix(actual: ColorMatrix, rows: number[][], offset = 0) {
+  rows.forEach((row, i) => {
+    row.forEach((v, j) => expect(actual[i * 4 + j]).toBeCloseTo(v, 12));
+    expect(actual[i * 4 + 3]).toBeCloseTo(offset, 12);
+  });
+}
+
+const AMOUNTS = [0, 0.1, 0.25, 0.5, 0.75, 0.9, 1];
+const FACTORS = [0, 0.5, 1, 1.1, 1.7, 2, 3];
+const ANGLES = [0, 30, 90, 135, 180, 270, 359];
+const CHANNELS = [0, 0.2, 0.5, 0.8, 1];
+
+describe("color matrices", () => {
+  it("invert, brightness and contrast follow the spec's transfer functions", () => {
+    for (const amount of AMOUNTS) {
+      for (const c of CHANNELS) {
+        const rgb: Rgb = [c, c, c];
+        applyColorMatrix(rgb, invertMatrix(amount));
+        expect(rgb[0]).toBeCloseTo(specInvert(amount, c), 12);
+      }
+    }
+    for (const amount of FACTORS) {
+      for (const c of CHANNELS) {
+        const bright: Rgb = [c, c, c];
+        applyColorMatrix(bright, brightnessMatrix(amount));
+        expect(bright[1]).toBeCloseTo(Math.min(1, specBrightness(amount, c)), 12);
+
+        const contrast: Rgb = [c, c, c];
+        applyColorMatrix(contrast, contrastMatrix(amount));
+        expect(contrast[2]).toBeCloseTo(Math.max(0, Math.min(1, specContrast(amount, c))), 12);
+      }
+    }
+  });
+
+  it("sepia, grayscale, saturate and hue-rotate match the spec's matrices", () => {
+    for (const amount of AMOUNTS) {
+      expectMatrix(sepiaMatrix(amount), specSepia(amount));
+      expectMatrix(grayscaleMatrix(amount), specGrayscale(amount));
+    }
+    for (const amount of FACTORS) expectMatrix(saturateMatrix(amount), specSaturate(amount));
+    for (const angle of ANGLES) expectMatrix(hueRotateMatrix(angle), specHueRotate(angle));
+  });
+
+  it("matches known values", () => {
+    expectMatrix(sepiaMatrix(1), [[0.393, 0.769, 0.189], [0.349, 0.686, 0.168], [0.272, 0.534, 0.131]]);
+    expectMatrix(hueRotateMatrix(180), [[-0.574, 1.43, 0.144], [0.426, 0.43, 0.144], [0.426, 1.43, -0.856]]);
+    expectMatrix(contrastMatrix(2), [[2, 0, 0], [0, 2, 0], [0, 0, 2]], -0.5);
+
+    const white: Rgb = [1, 1, 1];
+    applyColorMatrix(white, sepiaMatrix(1));
+    expect(white[0]).toBe(1);
+    expect(white[1]).toBe(1);
+    expect(white[2]).toBeCloseTo(0.937, 12);
+  });
+
+  it("clamps each result to 0..1", () => {
+    const rgb: Rgb = [0.9, 0.1, 0.5];
+    applyColorMatrix(rgb, contrastMatrix(3));
+    expect(rgb).toEqual([1, 0, 0.5]);
+  });
+});
@@ -0,0 +1,92 @@
+// Color matrices for the CSS filter functions, as defined by the Filter Effects spec
+// (https://drafts.fxtf.org/filter-effects/#FilterFunction). Exports run pages through these so
+// they match what the browser draws on screen.
+
+// Row-major 3x4 matrix on sRGB values in 0..1: each output channel is r, g, b weights plus an offset
+export type ColorMatrix = [
+  number, number, number, number,
+  number, number, number, number,
+  number, number, number, number,
+];
+
+export type Rgb = [number, number, number];
+
+// invert() is a table transfer function [amount, 1 - amount], i.e. C' = amount + (1 - 2 * amount) * C
+export function invertMatrix(amount: number): ColorMatrix {
+  const slope = 1 - 2 * amount;
+  return [
+    slope, 0, 0, amount,
+    0, slope, 0, amount,
+    0, 0, slope, amount,
+  ];
+}
+
+// brightness() is a linear transfer function with slope = amount
+export function brightnessMatrix(amount: number): ColorMatrix {
+  return [
+    amount, 0, 0, 0,
+    0, amount, 0, 0,
+    0, 0, amount, 0,
+  ];
+}
+
+// contrast() is a linear transfer function with slope = amount and intercept = 0.5 - 0.5 * amount
+export function contrastMatrix(amount: number): ColorMatrix {
+  const intercept = 0.5 - 0.5 * amount;
+  return [
+    amount, 0, 0, intercept,
+    0, amount, 0, intercept,
+    0, 0, amount, intercept,
+  ];
+}
+
+export function sepiaMatrix(amount: number): ColorMatrix {
+  const a = 1 - amount;
+  return [
+    0.393 + 0.607 * a, 0.769 - 0.769 * a, 0.189 - 0.189 * a, 0,
+    0.349 - 0.349 * a, 0.686 + 0.314 * a, 0.168 - 0.168 * a, 0,
+    0.272 - 0.272 * a, 0.534 - 0.534 * a, 0.131 + 0.869 * a, 0,
+  ];
+}
+
+export function saturateMatrix(amount: number): ColorMatrix {
+  const s = amount;
+  return [
+    0.213 + 0.787 * s, 0.715 - 0.715 * s, 0.072 - 0.072 * s, 0,
+    0.213 - 0.213 * s, 0.715 + 0.285 * s, 0.072 - 0.072 * s, 0,
+    0.213 - 0.213 * s, 0.715 - 0.715 * s, 0.072 + 0.928 * s, 0,
+  ];
+}
+
+export function hueRotateMatrix(degrees: number): ColorMatrix {
+  const rad = (degrees * Math.PI) / 180;
+  const cos = Math.cos(rad);
+  const sin = Math.sin(rad);
+  return [
+    0.213 + cos * 0.787 - sin * 0.213, 0.715 - cos * 0.715 - sin * 0.715, 0.072 - cos * 0.072 + sin * 0.928, 0,
+    0.213 - cos * 0.213 + sin * 0.143, 0.715 + cos * 0.285 + sin * 0.14, 0.072 - cos * 0.072 - sin * 0.283, 0,
+    0.213 - cos * 0.213 - sin * 0.787, 0.715 - cos * 0.715 + sin * 0.715, 0.072 + cos * 0.928 + sin * 0.072, 0,
+  ];
+}
+
+export function grayscaleMatrix(amount: number): ColorMatrix {
+  const a = 1 - amount;
+  return [
+    0.2126 + 0.7874 * a, 0.7152 - 0.7152 * a, 0.0722 - 0.0722 * a, 0,
+    0.2126 - 0.2126 * a, 0.7152 + 0.2848 * a, 0.0722 - 0.0722 * a, 0,
+    0.2126 - 0.2126 * a, 0.7152 - 0.7152 * a, 0.0722 + 0.9278 * a, 0,
+  ];
+}
+
+function clamp01(value: number): number {
+  return value < 0 ? 0 : value > 1 ? 1 : value;
+}
+
+// Every filter primitive clamps its result to 0..1 before the next one runs, so the
+// matrices of a filter chain can't be multiplied together ahead of time
+export function applyColorMatrix(rgb: Rgb, m: ColorMatrix) {
+  const [r, g, b] = rgb;
+  rgb[0] = clamp01(m[0] * r + m[1] * g + m[2] * b + m[3]);
+  rgb[1] = clamp01(m[4] * r + m[5] * g + m[6] * b + m[7]);
+  rgb[2] = clamp01(m[8] * r + m[9] * g + m[10] * b + m[11]);
+}
@@ -0,0 +1,62 @@
+// Duotone mode: map page luminance onto a paper color (white) and an ink color (black)
+// instead of inverting, e.g. paper → #1e1e2e and ink → #cdd6f4
+
+import type { Rgb } from "@/lib/color-matrix";
+
+export const DUOTONE_FILTER_ID = "dark-pdf-duotone";
+
+export const DEFAULT_PAPER_COLOR = "#1e1e2e";
+export const DEFAULT_INK_COLOR = "#cdd6f4";
+
+const HEX_COLOR = /^#?([0-9a-f]{6})$/i;
+
+// Rec. 709 luma weights, the same ones CSS grayscale() uses
+const LUMA = [0.2126, 0.7152, 0.0722];
+
+// Normalise "1E1E2E" or "#1e1e2e" to "#1e1e2e"; anything else falls back
+export function sanitizeHexColor(value: string | null | undefined, fallback: string): string {
+  const match = value ? HEX_COLOR.exec(value.trim()) : null;
+  return match ? `#${match[1].toLowerCase()}` : fallback;
+}
+
+function parseHexColor(hex: string): [number, number, number] {
+  const value = parseInt(sanitizeHexColor(hex, "#000000").slice(1), 16);
+  return [(value >> 16) & 255, (value >> 8) & 255, value & 255];
+}
+
+// feColorMatrix values: each channel becomes ink + (paper - ink) * luminance
+export function getDuotoneMatrix(paperColor: string, inkColor: string): string {
+  const paper = parseHexColor(paperColor);
+  const ink = parseHexColor(inkColor);
+  return [0, 1, 2]
+    .map((c) => {
+      const range = (paper[c] - ink[c]) / 255;
+      return [...LUMA.map((w) => w * range), 0, ink[c] / 255].join(" ");
+    })
+    .concat("0 0 0 1 0")
+    .join(" ");
+}
+
+// The same mapping on a single color (0..1 per channel, updated in place)
+export function getDuotoneTransform(paperColor: string, inkColor: string): (rgb: Rgb) => void {
+  const paper = parseHexColor(paperColor);
+  const ink = parseHexColor(inkColor);
+  return (rgb) => {
+    const luminance = rgb[0] * LUMA[0] + rgb[1] * LUMA[1] + rgb[2] * LUMA[2];
+    for (let c = 0; c < 3; c++) rgb[c] = (ink[c] + (paper[c] - ink[c]) * luminance) / 255;
+  };
+}
+
+// Pixel version of the SVG filter for exports
+export function applyDuotone(imageData: ImageData, paperColor: string, inkColor: string): ImageData {
+  const data = imageData.data;
+  const paper = parseHexColor(paperColor);
+  const ink = parseHexColor(inkColor);
+  for (let i = 0; i < data.length; i += 4) {
+    const luminance = (data[i] * LUMA[0] + data[i + 1] * LUMA[1] + data[i + 2] * LUMA[2]) / 255;
+    data[i] = ink[0] + (paper[0] - ink[0]) * luminance;
+    data[i + 1] = ink[1] + (paper[1] - ink[1]) * luminance;
+    data[i + 2] = ink[2] + (paper[2] - ink[2]) * luminance;
+  }
+  return imageData;
+}
@@ -0,0 +1,18 @@
+// Exclusion regions: rectangles drawn on a page that always keep their original colors.
+// They are stored as boxes in PDF user space, like the image boxes from pdf-images, so they
+// stay in place at any zoom or rotation; getImageRects converts them to viewport rectangles.
+
+import type { ImageRect } from "@/lib/pdf-images";
+
+// [x1, y1, x2, y2] in PDF user space
+export type ExclusionRegion = [number, number, number, number];
+
+// Smallest region (CSS pixels per side) a drag creates, so a stray click doesn't add one
+export const MIN_REGION_SIZE = 8;
+
+// Convert a rectangle in viewport (CSS pixel) coordinates back to a user-space box
+export function toExclusionRegion(rect: ImageRect, viewport: any): ExclusionRegion {
+  const [x1, y1] = viewport.convertToPdfPoint(rect.x, rect.y);
+  const [x2, y2] = viewport.convertToPdfPoint(rect.x + rect.width, rect.y + rect.height);
+  return [Math.min(x1, x2), Math.min(y1, y2), Math.max(x1, x2), Math.max(y1, y2)];
+}
@@ -0,0 +1,90 @@
+// What raster exports carry over besides page images: document info, outline and links. Exports
+// also record the filters each page was saved with, so reopening one can warn before the pages
+// are filtered a second time (inverting them back to light).
+
+import type { FilterSettings } from "@/lib/filters";
+import type { LinkAnnotation, OutlineNode } from "@/lib/pdf-navigation";
+
+export interface ExportedFilters {
+  // Settings each exported page was filtered with, or null for pages kept in their colors
+  pages: (FilterSettings | null)[];
+  grayscale: boolean;
+}
+
+// jsPDF output records the filters as an XMP property. Vector exports keep the original file's XMP
+// untouched, so they use a custom document info entry instead.
+const XMP_NAMESPACE = "https://github.com/benjifriedman/dark-pdf/ns/export/";
+// PDF.js lower-cases XMP property names
+const XMP_PROPERTY = "darkpdf:filters";
+export const EXPORTED_FILTERS_INFO_KEY = "DarkPDFFilters";
+
+const escapeXml = (str: string) =>
+  str.replace(/&/g, "&amp;").replace(/</g, "&lt;").replace(/>/g, "&gt;").replace(/"/g, "&quot;");
+
+function buildFiltersXmp(filters: ExportedFilters): string {
+  return (
+    `<x:xmpmeta xmlns:x="adobe:ns:meta/"><rdf:RDF xmlns:rdf="http://www.w3.org/1999/02/22-rdf-syntax-ns#">` +
+    `<rdf:Description rdf:about="" xmlns:darkpdf="${XMP_NAMESPACE}">` +
+    `<${XMP_PROPERTY}>${escapeXml(JSON.stringify(filters))}</${XMP_PROPERTY}>` +
+    `</rdf:Description></rdf:RDF></x:xmpmeta>`
+  );
+}
+
+// Filters recorded by an earlier export of this file, or null for any other file
+export async function readExportedFilters(pdfDoc: any): Promise<ExportedFilters | null> {
+  try {
+    const { info, metadata } = await pdfDoc.getMetadata();
+    const raw = metadata?.get(XMP_PROPERTY) ?? info?.Custom?.[EXPORTED_FILTERS_INFO_KEY];
+    if (typeof raw !== "string") return null;
+    const parsed = JSON.parse(raw);
+    return Array.isArray(parsed?.pages) ? parsed : null;
+  } catch {
+    return null;
+  }
+}
+
+// Title, author, subject and keywords of the original, plus the filter record
+export async function addJsPDFDocumentInfo(pdf: any, pdfDoc: any, filters: ExportedFilters) {
+  const { info } = await pdfDoc.getMetadata().catch(() => ({ info: null }));
+  pdf.setDocumentProperties({
+    title: info?.Title || "",
+    author: info?.Author || "",
+    subject: info?.Subject || "",
+    keywords: info?.Keywords || "",
+    creator: "Dark PDF",
+  });
+  pdf.addMetadata(buildFiltersXmp(filters), true);
+}
+
+// Links of the current jsPDF page, from extractLinks with the export viewport. Internal links and
+// outline entries go through exportedPage, which maps an original page number to its page in the
+// export, or null when that page wasn't exported.
+export function addJsPDFLinks(
+  pdf: any,
+  links: LinkAnnotation[],
+  pxToMm: number,
+  exportedPage: (pageNum: number) => number | null
+) {
+  for (const link of links) {
+    const pageNumber = link.dest !== null ? exportedPage(link.dest) : null;
+    if (!link.url && pageNumber === null) continue;
+    const { x, y, width, height } = link.rect;
+    pdf.link(x * pxToMm, y * pxToMm, width * pxToMm, height * pxToMm, link.url ? { url: link.url } : { pageNumber });
+  }
+}
+
+// Entries whose page wasn't exported are dropped, unless one of their children points at an
+// exported page; jsPDF outlines can't hold web links, so those entries are dropped the same way
+export function addJsPDFOutline(pdf: any, nodes: OutlineNode[], exportedPage: (pageNum: number) => number | null) {
+  const getTarget = (node: OutlineNode) => (node.pageNum !== null ? exportedPage(node.pageNum) : null);
+  const isKept = (node: OutlineNode): boolean => getTarget(node) !== null || node.items.some(isKept);
+  const addNodes = (parent: any, list: OutlineNode[]) => {
+    for (const node of list) {
+      if (!isKept(node)) continue;
+      const pageNumber = getTarget(node);
+      const item = pdf.outline.add(parent, node.title, pageNumber !== null ? { pageNumber } : undefined);
+      addNodes(item, node.items);
+    }
+  };
+  addNodes(null, nodes);
+}
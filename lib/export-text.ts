@@ -0,0 +1,123 @@
+// Invisible text layer for exported image pages, so the export can still be searched and copied from
+
+import type { OCRWord } from "@/hooks/use-ocr";
+import { getPageTextContent, getTextItemBox, getTextItemOrigin, getTextItems } from "@/lib/pdf-text";
+
+export interface ExportTextItem {
+  str: string;
+  // Left end of the baseline, the width the text covers and its font size, in export image pixels
+  x: number;
+  y: number;
+  width: number;
+  size: number;
+  // Clockwise rotation in radians
+  angle: number;
+}
+
+export interface ExportFont {
+  name: string;
+  bytes: Uint8Array;
+  // The same bytes for jsPDF's virtual file system
+  base64: string;
+  // Code points the font has glyphs for
+  characters: Set<number>;
+}
+
+const MM_TO_PT = 72 / 25.4;
+
+// DejaVu Sans covers Latin, Greek, Cyrillic, Hebrew, Arabic and more; like PDF.js it comes from a
+// CDN, on the first searchable export
+const EXPORT_FONT_URL = "https://cdn.jsdelivr.net/npm/dejavu-fonts-ttf@2.37.3/ttf/DejaVuSans.ttf";
+
+let exportFont: Promise<ExportFont | null> | null = null;
+
+function toBase64(bytes: Uint8Array): string {
+  let binary = "";
+  for (let i = 0; i < bytes.length; i += 8192) {
+    binary += String.fromCharCode(...bytes.subarray(i, i + 8192));
+  }
+  return btoa(binary);
+}
+
+async function fetchExportFont(): Promise<ExportFont> {
+  const response = await fetch(EXPORT_FONT_URL);
+  if (!response.ok) throw new Error(`Failed to fetch font (${response.status})`);
+  const bytes = new Uint8Array(await response.arrayBuffer());
+  const { default: fontkit } = await import("@pdf-lib/fontkit");
+  return { name: "DejaVuSans", bytes, base64: toBase64(bytes), characters: new Set(fontkit.create(bytes).characterSet) };
+}
+
+// The font for invisible text, or null when it can't be loaded, in which case exports fall back to
+// Helvetica and Latin-1 (see toWinAnsi)
+export function loadExportFont(): Promise<ExportFont | null> {
+  exportFont ??= fetchExportFont()
+    .catch((err) => {
+      console.error("Error loading export font:", err);
+      // Try again on the next export
+      exportFont = null;
+      return null;
+    });
+  return exportFont;
+}
+
+// The page's own text, positioned in the export viewport; empty for scanned pages
+export async function getPageExportText(pdfDoc: any, pageNum: number, viewport: any): Promise<ExportTextItem[]> {
+  const textContent = await getPageTextContent(pdfDoc, pageNum);
+  return getTextItems(textContent)
+    .filter((item) => item.str.trim())
+    .map((item) => {
+      const box = getTextItemBox(item, textContent.styles, viewport);
+      const [x, y] = getTextItemOrigin(item, viewport);
+      return { str: box.str, x, y, width: box.width, size: box.height, angle: box.angle };
+    });
+}
+
+export function ocrWordsToExportText(words: OCRWord[]): ExportTextItem[] {
+  return words.map(({ text, x, y, width, size }) => ({ str: text, x, y, width, size, angle: 0 }));
+}
+
+const WIN_ANSI_REPLACEMENTS: Record<string, string> = {
+  "‘": "'", "’": "'", "“": '"', "”": '"', "–": "-", "—": "-", "…": "...", "•": "-",
+};
+
+// The standard PDF fonts only encode Latin-1, so other characters become "?"; searching for them
+// in the export won't find anything, but the positions of the rest of the text stay right
+function toWinAnsi(str: string): string {
+  return str
+    .normalize("NFKC")
+    .replace(/[‘’“”–—…•]/g, (ch) => WIN_ANSI_REPLACEMENTS[ch])
+    .replace(/[^\x20-\x7e\xa0-\xff]/g, "?");
+}
+
+// Text as the font can write it; characters it has no glyph for (such as CJK in DejaVu Sans) become "?"
+export function toFontText(str: string, font: ExportFont | null): string {
+  if (!font) return toWinAnsi(str);
+  return Array.from(str.normalize("NFKC"), (ch) => (font.characters.has(ch.codePointAt(0)!) ? ch : "?")).join("");
+}
+
+// Write the items into the current jsPDF page as invisible text in the export font (or Helvetica),
+// stretched to cover the original text so selections line up with what's shown
+export function addJsPDFTextLayer(pdf: any, items: ExportTextItem[], pxToMm: number, font: ExportFont | null) {
+  if (font) {
+    // jsPDF embeds only the glyphs used
+    if (!pdf.getFontList()[font.name]) {
+      pdf.addFileToVFS(`${font.name}.ttf`, font.base64);
+      pdf.addFont(`${font.name}.ttf`, font.name, "normal");
+    }
+    pdf.setFont(font.name, "normal");
+  } else {
+    pdf.setFont("helvetica", "normal");
+  }
+  for (const item of items) {
+    const str = toFontText(item.str, font);
+    if (!str.trim() || item.size <= 0) continue;
+    pdf.setFontSize(item.size * pxToMm * MM_TO_PT);
+    const naturalWidth = pdf.getTextWidth(str);
+    pdf.text(str, item.x * pxToMm, item.y * pxToMm, {
+      renderingMode: "invisible",
+      // jsPDF angles are counter-clockwise, in degrees
+      angle: (-item.angle * 180) / Math.PI,
+      horizontalScale: naturalWidth > 0 && item.width > 0 ? (item.width * pxToMm) / naturalWidth : 1,
+    });
+  }
+}
@@ -0,0 +1,62 @@
+// Main-thread side of the export worker (lib/export-worker.ts)
+
+import type { FilterSettings } from "@/lib/filters";
+import type { ImageRect } from "@/lib/pdf-images";
+
+export interface ExportPageJob {
+  id: number;
+  width: number;
+  height: number;
+  // RGBA pixels of the rendered page; the buffer is transferred to the worker
+  pixels: ArrayBuffer;
+  // Filters for the page, or null to keep its original colors
+  settings: FilterSettings | null;
+  // Whole-pixel rectangles kept in their original colors
+  keepRects: ImageRect[];
+  grayscale: boolean;
+  mime: string;
+  // Encoder quality, 0..1
+  quality: number;
+}
+
+export type ExportPageResult = { id: number; bytes: ArrayBuffer } | { id: number; error: string };
+
+export interface ExportWorker {
+  // Filter and encode a page; the result is the encoded image file
+  processPage: (job: Omit<ExportPageJob, "id">) => Promise<ArrayBuffer>;
+  // Stop the worker, rejecting any page still in progress with an AbortError
+  terminate: () => void;
+}
+
+export function createExportWorker(): ExportWorker {
+  const worker = new Worker(new URL("./export-worker.ts", import.meta.url), { type: "module" });
+  const pending = new Map<number, { resolve: (bytes: ArrayBuffer) => void; reject: (err: Error) => void }>();
+  let nextId = 0;
+
+  worker.addEventListener("message", (event: MessageEvent<ExportPageResult>) => {
+    const result = event.data;
+    const job = pending.get(result.id);
+    if (!job) return;
+    pending.delete(result.id);
+    if ("error" in result) job.reject(new Error(result.error));
+    else job.resolve(result.bytes);
+  });
+  worker.addEventListener("error", (event) => {
+    for (const job of pending.values()) job.reject(new Error(event.message || "Export worker failed"));
+    pending.clear();
+  });
+
+  return {
+    processPage: (job) =>
+      new Promise((resolve, reject) => {
+        const id = nextId++;
+        pending.set(id, { resolve, reject });
+        worker.postMessage({ ...job, id }, [job.pixels]);
+      }),
+    terminate: () => {
+      worker.terminate();
+      for (const job of pending.values()) job.reject(new DOMException("Export cancelled", "AbortError"));
+      pending.clear();
+    },
+  };
+}
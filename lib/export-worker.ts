@@ -0,0 +1,38 @@
+// Export worker: filters and encodes rendered pages off the main thread. The page pixels arrive as a
+// transferred buffer, and the encoded image goes back the same way.
+
+import { applyFilterSettings } from "@/lib/filters";
+import { applyGrayscale } from "@/lib/export-options";
+import type { ExportPageJob, ExportPageResult } from "@/lib/export-worker-client";
+
+const worker = self as unknown as Worker;
+
+async function processPage(job: ExportPageJob): Promise<ArrayBuffer> {
+  const imageData = new ImageData(new Uint8ClampedArray(job.pixels), job.width, job.height);
+  const canvas = new OffscreenCanvas(job.width, job.height);
+  const context = canvas.getContext("2d")!;
+  context.putImageData(imageData, 0, 0);
+
+  if (job.settings) {
+    // Keep the original pixels of embedded images and exclusion regions to paste back after filtering
+    const originals = job.keepRects.map(({ x, y, width, height }) => ({ x, y, data: context.getImageData(x, y, width, height) }));
+    context.putImageData(applyFilterSettings(imageData, job.settings), 0, 0);
+    originals.forEach(({ x, y, data }) => context.putImageData(data, x, y));
+  }
+  if (job.grayscale) {
+    context.putImageData(applyGrayscale(context.getImageData(0, 0, job.width, job.height)), 0, 0);
+  }
+
+  const blob = await canvas.convertToBlob({ type: job.mime, quality: job.quality });
+  return blob.arrayBuffer();
+}
+
+worker.addEventListener("message", async (event: MessageEvent<ExportPageJob>) => {
+  const { id } = event.data;
+  try {
+    const bytes = await processPage(event.data);
+    worker.postMessage({ id, bytes } satisfies ExportPageResult, [bytes]);
+  } catch (err) {
+    worker.postMessage({ id, error: err instanceof Error ? err.message : String(err) } satisfies ExportPageResult);
+  }
+});
@@ -0,0 +1,195 @@
+import { describe, expect, it } from "vitest";
+import type { Rgb } from "@/lib/color-matrix";
+import { DUOTONE_FILTER_ID, getDuotoneMatrix } from "@/lib/duotone";
+import {
+  DEFAULT_FILTER_SETTINGS,
+  applyFilterSettings,
+  getColorTransform,
+  getFilterStyle,
+  getTransferFilters,
+  normalizeFilterSettings,
+  normalizePresets,
+  type AdjustmentKey,
+  type FilterSettings,
+} from "@/lib/filters";
+
+// What the browser does with the CSS filter string getFilterStyle builds: each function per the
+// Filter Effects spec's shorthand equivalents, in sRGB, clamping after every primitive
+
+const clamp = (v: number) => Math.max(0, Math.min(1, v));
+
+function multiply(rows: number[][], rgb: Rgb, offsets = [0, 0, 0]): Rgb {
+  return rows.map((row, i) => clamp(row[0] * rgb[0] + row[1] * rgb[1] + row[2] * rgb[2] + offsets[i])) as Rgb;
+}
+
+function cssFunction(name: string, arg: string, settings: FilterSettings): (rgb: Rgb) => Rgb {
+  const value = parseFloat(arg);
+  const amount = arg.endsWith("%") ? value / 100 : value;
+  switch (name) {
+    case "invert":
+      return (rgb) => rgb.map((c) => clamp(amount + c * (1 - 2 * amount))) as Rgb;
+    case "brightness":
+      return (rgb) => rgb.map((c) => clamp(c * amount)) as Rgb;
+    case "contrast":
+      return (rgb) => rgb.map((c) => clamp(c * amount - 0.5 * amount + 0.5)) as Rgb;
+    case "sepia": {
+      const a = 1 - amount;
+      return (rgb) => multiply([
+        [0.393 + 0.607 * a, 0.769 - 0.769 * a, 0.189 - 0.189 * a],
+        [0.349 - 0.349 * a, 0.686 + 0.314 * a, 0.168 - 0.168 * a],
+        [0.272 - 0.272 * a, 0.534 - 0.534 * a, 0.131 + 0.869 * a],
+      ], rgb);
+    }
+    case "grayscale": {
+      const a = 1 - amount;
+      return (rgb) => multiply([
+        [0.2126 + 0.7874 * a, 0.7152 - 0.7152 * a, 0.0722 - 0.0722 * a],
+        [0.2126 - 0.2126 * a, 0.7152 + 0.2848 * a, 0.0722 - 0.0722 * a],
+        [0.2126 - 0.2126 * a, 0.7152 - 0.7152 * a, 0.0722 + 0.9278 * a],
+      ], rgb);
+    }
+    case "saturate":
+      return (rgb) => multiply([
+        [0.213 + 0.787 * amount, 0.715 - 0.715 * amount, 0.072 - 0.072 * amount],
+        [0.213 - 0.213 * amount, 0.715 + 0.285 * amount, 0.072 - 0.072 * amount],
+        [0.213 - 0.213 * amount, 0.715 - 0.715 * amount, 0.072 + 0.928 * amount],
+      ], rgb);
+    case "hue-rotate": {
+      const cos = Math.cos((value * Math.PI) / 180);
+      const sin = Math.sin((value * Math.PI) / 180);
+      return (rgb) => multiply([
+        [0.213 + 0.787 * cos - 0.213 * sin, 0.715 - 0.715 * cos - 0.715 * sin, 0.072 - 0.072 * cos + 0.928 * sin],
+        [0.213 - 0.213 * cos + 0.143 * sin, 0.715 + 0.285 * cos + 0.14 * sin, 0.072 - 0.072 * cos - 0.283 * sin],
+        [0.213 - 0.213 * cos - 0.787 * sin, 0.715 - 0.715 * cos + 0.715 * sin, 0.072 + 0.928 * cos + 0.072 * sin],
+      ], rgb);
+    }
+    case "url": {
+      const id = arg.replace(/^#/, "");
+      if (id === DUOTONE_FILTER_ID) {
+        // feColorMatrix type="matrix": 4x5 values, the alpha row unused here
+        const values = getDuotoneMatrix(settings.paperColor, settings.inkColor).split(" ").map(Number);
+        const rows = [0, 1, 2].map((i) => values.slice(i * 5, i * 5 + 3));
+        return (rgb) => multiply(rows, rgb, [0, 1, 2].map((i) => values[i * 5 + 4]));
+      }
+      const filter = getTransferFilters(settings).find((f) => f.id === id);
+      if (!filter) throw new Error(`Unknown filter ${id}`);
+      // feFuncX type="gamma" amplitude="1" offset="0", or type="linear" intercept="0"
+      const fns = [filter.transfer.r, filter.transfer.g, filter.transfer.b];
+      return (rgb) => rgb.map((c, i) => {
+        const fn = fns[i];
+        return clamp(fn.type === "gamma" ? Math.pow(c, fn.exponent) : c * fn.slope);
+      }) as Rgb;
+    }
+    default:
+      throw new Error(`Unexpected filter function ${name}`);
+  }
+}
+
+function cssReference(settings: FilterSettings): (rgb: Rgb) => Rgb {
+  const filter = getFilterStyle(settings).filter ?? "";
+  const steps = [...filter.matchAll(/([a-z-]+)\(([^)]*)\)/g)].map(([, name, arg]) => cssFunction(name, arg, settings));
+  return (rgb) => steps.reduce((color, step) => step(color), rgb);
+}
+
+function withAdjustments(adjustments: Partial<Record<AdjustmentKey, number>>, modes: Partial<FilterSettings> = {}): FilterSettings {
+  return { ...DEFAULT_FILTER_SETTINGS, ...modes, adjustments: { ...DEFAULT_FILTER_SETTINGS.adjustments, ...adjustments } };
+}
+
+const COLORS: Rgb[] = [
+  [0, 0, 0], [1, 1, 1], [0.5, 0.5, 0.5], [0.2, 0.4, 0.6], [0.9, 0.1, 0.3], [0.13, 0.87, 0.45], [1, 0.95, 0.8],
+];
+
+function* settingsGrid(): Generator<FilterSettings> {
+  for (const inversion of [0, 50, 100]) {
+    for (const brightness of [50, 100, 200, 300]) {
+      for (const contrast of [0, 100, 170, 300]) {
+        for (const sepia of [0, 50, 100]) {
+          for (const smartDarkMode of [false, true]) {
+            for (const extra of [
+              {},
+              { gamma: 1.5, warmth: 60 },
+              { gamma: 0.6, saturation: 250, hueRotate: 90 },
+              { grayscale: 40, hueRotate: 200, saturation: 30 },
+            ]) {
+              yield withAdjustments({ inversion, brightness, contrast, sepia, ...extra }, { smartDarkMode });
+            }
+          }
+        }
+      }
+    }
+  }
+}
+
+function transformColor(settings: FilterSettings, color: Rgb): Rgb {
+  const rgb: Rgb = [...color];
+  getColorTransform(settings)(rgb);
+  return rgb;
+}
+
+function filterPixel(settings: FilterSettings, color: Rgb): number[] {
+  const data = new Uint8ClampedArray(color.map((c) => Math.round(c * 255)).concat(255));
+  return Array.from(applyFilterSettings({ data, width: 1, height: 1 } as ImageData, settings).data.slice(0, 3));
+}
+
+describe("export filter engine", () => {
+  it("matches the CSS filter chain over a grid of settings", () => {
+    let checked = 0;
+    for (const settings of settingsGrid()) {
+      const reference = cssReference(settings);
+      for (const color of COLORS) {
+        const expected = reference(color);
+        const actual = transformColor(settings, color);
+        actual.forEach((c, i) => expect(c).toBeCloseTo(expected[i], 9));
+        checked++;
+      }
+    }
+    expect(checked).toBe(1152 * COLORS.length);
+  });
+
+  it("matches the duotone feColorMatrix", () => {
+    for (const [paperColor, inkColor] of [["#1e1e2e", "#cdd6f4"], ["#000000", "#ffffff"], ["#282828", "#ebdbb2"]]) {
+      const settings = withAdjustments({}, { duotoneMode: true, paperColor, inkColor });
+      const reference = cssReference(settings);
+      for (const color of COLORS) {
+        const expected = reference(color);
+        transformColor(settings, color).forEach((c, i) => expect(c).toBeCloseTo(expected[i], 9));
+      }
+    }
+  });
+
+  it("gives known pixel values", () => {
+    // Default settings: invert, brightness 200%, contrast 170%, sepia 50%
+    expect(filterPixel(DEFAULT_FILTER_SETTINGS, [1, 1, 1])).toEqual([0, 0, 0]);
+    expect(filterPixel(DEFAULT_FILTER_SETTINGS, [0, 0, 0])).toEqual([255, 255, 247]);
+
+    const duotone = withAdjustments({}, { duotoneMode: true, paperColor: "#1e1e2e", inkColor: "#cdd6f4" });
+    expect(filterPixel(duotone, [1, 1, 1])).toEqual([30, 30, 46]);
+    expect(filterPixel(duotone, [0, 0, 0])).toEqual([205, 214, 244]);
+
+    const invertOnly = withAdjustments({ inversion: 100, brightness: 100, contrast: 100, sepia: 0 });
+    expect(filterPixel(invertOnly, [0.2, 0.4, 0.6])).toEqual([204, 153, 102]);
+  });
+
+  it("leaves pixels alone when dark mode is off", () => {
+    const settings = withAdjustments({}, { darkMode: false });
+    expect(filterPixel(settings, [0.2, 0.4, 0.6])).toEqual([51, 102, 153]);
+  });
+});
+
+describe("stored settings", () => {
+  it("keeps the readable presets when others are malformed", () => {
+    const presets = normalizePresets([null, 3, { id: 1, name: "Flat", inversion: 80, duotone: { paperColor: 5 } }]);
+    expect(presets).toHaveLength(1);
+    expect(presets[0]).toMatchObject({ id: "1", name: "Flat", duotone: { paperColor: "#1e1e2e" } });
+    expect(presets[0].adjustments.inversion).toBe(80);
+    expect(normalizePresets({ id: 1 })).toEqual([]);
+  });
+
+  it("falls back to defaults for missing or mistyped fields", () => {
+    expect(normalizeFilterSettings(null)).toEqual(DEFAULT_FILTER_SETTINGS);
+    const settings = normalizeFilterSettings({ darkMode: "no", inkColor: 7, autoPresets: { scan: 1, text: "a" }, adjustments: { contrast: 900 } });
+    expect(settings.darkMode).toBe(true);
+    expect(settings.autoPresets).toEqual({ text: "a" });
+    expect(settings.adjustments.contrast).toBe(300);
+  });
+});
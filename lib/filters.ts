@@ -0,0 +1,445 @@
+// Single definition of the dark mode filter pipeline. Each adjustment declares its slider range,
+// URL parameter, CSS (or SVG) filter and pixel implementation; the viewers, export, filter controls,
+// presets and URL parsing are all driven from these definitions.
+
+import {
+  applyColorMatrix,
+  brightnessMatrix,
+  contrastMatrix,
+  grayscaleMatrix,
+  hueRotateMatrix,
+  invertMatrix,
+  saturateMatrix,
+  sepiaMatrix,
+  type ColorMatrix,
+  type Rgb,
+} from "@/lib/color-matrix";
+import {
+  DEFAULT_INK_COLOR,
+  DEFAULT_PAPER_COLOR,
+  DUOTONE_FILTER_ID,
+  applyDuotone,
+  getDuotoneTransform,
+  sanitizeHexColor,
+} from "@/lib/duotone";
+import { PAGE_CLASSES, type PageClass } from "@/lib/page-analysis";
+
+// Per-channel SVG feComponentTransfer function, for adjustments CSS has no filter function for
+type TransferFunction = { type: "gamma"; exponent: number } | { type: "linear"; slope: number };
+
+export interface ChannelTransfer {
+  r: TransferFunction;
+  g: TransferFunction;
+  b: TransferFunction;
+}
+
+interface AdjustmentBase {
+  key: string;
+  label: string;
+  // URL parameter name
+  param: string;
+  min: number;
+  max: number;
+  step: number;
+  unit: string;
+  defaultValue: number;
+  // Value at which the adjustment leaves the page unchanged
+  neutral: number;
+}
+
+type AdjustmentEffect =
+  | { css: (value: number) => string; matrix: (value: number) => ColorMatrix }
+  | { transfer: (value: number) => ChannelTransfer };
+
+export type Adjustment = AdjustmentBase & AdjustmentEffect;
+
+// SVG transfer functions on values in 0..1; like every filter primitive, the result is clamped
+function applyTransferFunction(value: number, fn: TransferFunction): number {
+  const result = fn.type === "gamma" ? Math.pow(value, fn.exponent) : value * fn.slope;
+  return Math.max(0, Math.min(1, result));
+}
+
+// Pipeline order matters: it is the order of the CSS filter functions and of the pixel passes
+export const ADJUSTMENTS = [
+  {
+    key: "inversion",
+    label: "Inversion",
+    param: "inv",
+    min: 0, max: 100, step: 1, unit: "%",
+    defaultValue: 100,
+    neutral: 0,
+    css: (v) => `invert(${v}%)`,
+    matrix: (v) => invertMatrix(v / 100),
+  },
+  {
+    key: "brightness",
+    label: "Brightness",
+    param: "br",
+    min: 0, max: 300, step: 1, unit: "%",
+    defaultValue: 200,
+    neutral: 100,
+    css: (v) => `brightness(${v}%)`,
+    matrix: (v) => brightnessMatrix(v / 100),
+  },
+  {
+    key: "contrast",
+    label: "Contrast",
+    param: "ct",
+    min: 0, max: 300, step: 1, unit: "%",
+    defaultValue: 170,
+    neutral: 100,
+    css: (v) => `contrast(${v}%)`,
+    matrix: (v) => contrastMatrix(v / 100),
+  },
+  {
+    key: "sepia",
+    label: "Sepia",
+    param: "sp",
+    min: 0, max: 100, step: 1, unit: "%",
+    defaultValue: 50,
+    neutral: 0,
+    css: (v) => `sepia(${v}%)`,
+    matrix: (v) => sepiaMatrix(v / 100),
+  },
+  {
+    key: "gamma",
+    label: "Gamma",
+    param: "gm",
+    min: 0.2, max: 3, step: 0.05, unit: "",
+    defaultValue: 1,
+    neutral: 1,
+    // Above 1 lifts midtones, below 1 darkens them
+    transfer: (v) => {
+      const fn = { type: "gamma", exponent: 1 / v } as const;
+      return { r: fn, g: fn, b: fn };
+    },
+  },
+  {
+    key: "saturation",
+    label: "Saturation",
+    param: "sat",
+    min: 0, max: 300, step: 1, unit: "%",
+    defaultValue: 100,
+    neutral: 100,
+    css: (v) => `saturate(${v}%)`,
+    matrix: (v) => saturateMatrix(v / 100),
+  },
+  {
+    key: "hueRotate",
+    label: "Hue Rotate",
+    param: "hue",
+    min: 0, max: 360, step: 1, unit: "°",
+    defaultValue: 0,
+    neutral: 0,
+    css: (v) => `hue-rotate(${v}deg)`,
+    matrix: (v) => hueRotateMatrix(v),
+  },
+  {
+    key: "grayscale",
+    label: "Grayscale",
+    param: "gs",
+    min: 0, max: 100, step: 1, unit: "%",
+    defaultValue: 0,
+    neutral: 0,
+    css: (v) => `grayscale(${v}%)`,
+    matrix: (v) => grayscaleMatrix(v / 100),
+  },
+  {
+    key: "warmth",
+    label: "Warmth",
+    param: "wm",
+    min: 0, max: 100, step: 1, unit: "%",
+    defaultValue: 0,
+    neutral: 0,
+    // Blue-light reduction: dim blue most and green a little
+    transfer: (v) => ({
+      r: { type: "linear", slope: 1 },
+      g: { type: "linear", slope: 1 - 0.15 * (v / 100) },
+      b: { type: "linear", slope: 1 - 0.5 * (v / 100) },
+    }),
+  },
+] as const satisfies readonly Adjustment[];
+
+export type AdjustmentKey = (typeof ADJUSTMENTS)[number]["key"];
+
+const DEFINITIONS: readonly Adjustment[] = ADJUSTMENTS;
+
+// On/off switches that change how the pipeline runs rather than adding a step
+export const FILTER_MODES = [
+  { key: "darkMode", label: "Dark Mode", param: "dm" },
+  { key: "smartDarkMode", label: "Color Preserve Mode", param: "sdm" },
+  { key: "preserveImages", label: "Invert Text Only", param: "pi" },
+  { key: "duotoneMode", label: "Duotone Mode", param: "dt" },
+  { key: "autoMode", label: "Auto Filters", param: "auto" },
+] as const;
+
+export type FilterModeKey = (typeof FILTER_MODES)[number]["key"];
+
+export interface FilterSettings {
+  darkMode: boolean;
+  // Color preserve: hue-rotate the inverted page back so colors keep their hue
+  smartDarkMode: boolean;
+  // "Invert text only": embedded images are shown uninverted over the filtered page
+  preserveImages: boolean;
+  // Map paper to paperColor and ink to inkColor instead of running the adjustments
+  duotoneMode: boolean;
+  paperColor: string;
+  inkColor: string;
+  // Pick adjustments per page from its class (text, scan, photo)
+  autoMode: boolean;
+  // Preset used for each page class in auto mode, by preset id; classes without one use AUTO_PROFILES
+  autoPresets: Partial<Record<PageClass, string>>;
+  adjustments: Record<AdjustmentKey, number>;
+}
+
+export const DEFAULT_ADJUSTMENTS = Object.fromEntries(
+  DEFINITIONS.map((def) => [def.key, def.defaultValue])
+) as Record<AdjustmentKey, number>;
+
+export const DEFAULT_FILTER_SETTINGS: FilterSettings = {
+  darkMode: true,
+  smartDarkMode: false,
+  preserveImages: false,
+  duotoneMode: false,
+  paperColor: DEFAULT_PAPER_COLOR,
+  inkColor: DEFAULT_INK_COLOR,
+  autoMode: false,
+  autoPresets: {},
+  adjustments: DEFAULT_ADJUSTMENTS,
+};
+
+// Built-in auto mode profiles. Text pages keep the slider values; scans get extra contrast to flatten
+// their grey paper, and photo-heavy pages a gentler partial inversion.
+export const AUTO_PROFILES: Record<PageClass, Partial<Record<AdjustmentKey, number>>> = {
+  text: {},
+  scan: { inversion: 100, brightness: 190, contrast: 230, sepia: 40 },
+  photo: { inversion: 85, brightness: 120, contrast: 110, sepia: 10 },
+};
+
+// Includes the value, since pages in auto mode can use the same adjustment with different values
+export function getAdjustmentFilterId(key: string, value: number): string {
+  return `dark-pdf-${key}-${String(value).replace(/\W/g, "_")}`;
+}
+
+export function formatAdjustmentValue(def: Adjustment, value: number): string {
+  return `${def.step < 1 ? value.toFixed(2) : value}${def.unit}`;
+}
+
+function clampAdjustment(def: Adjustment, value: unknown): number {
+  const num = typeof value === "string" ? parseFloat(value) : value;
+  if (typeof num !== "number" || isNaN(num)) return def.defaultValue;
+  return Math.max(def.min, Math.min(def.max, num));
+}
+
+// Stored JSON narrowed to something whose properties can be read
+type StoredObject = Record<string, unknown>;
+
+function asObject(value: unknown): StoredObject | null {
+  return value && typeof value === "object" && !Array.isArray(value) ? (value as StoredObject) : null;
+}
+
+const readColor = (value: unknown, fallback: string) => sanitizeHexColor(typeof value === "string" ? value : null, fallback);
+
+// Read adjustments from either the current shape or the older flat one ({ inversion, brightness, ... })
+function readAdjustments(source: StoredObject): Record<AdjustmentKey, number> {
+  const nested = asObject(source.adjustments) ?? {};
+  return Object.fromEntries(
+    DEFINITIONS.map((def) => [def.key, clampAdjustment(def, nested[def.key] ?? source[def.key])])
+  ) as Record<AdjustmentKey, number>;
+}
+
+// Settings from localStorage or a saved session, filling in anything missing
+export function normalizeFilterSettings(raw: unknown): FilterSettings {
+  const source = asObject(raw) ?? {};
+  const readMode = (key: FilterModeKey) => {
+    const value = source[key];
+    return typeof value === "boolean" ? value : DEFAULT_FILTER_SETTINGS[key];
+  };
+  const autoPresets = asObject(source.autoPresets) ?? {};
+  return {
+    darkMode: readMode("darkMode"),
+    smartDarkMode: readMode("smartDarkMode"),
+    preserveImages: readMode("preserveImages"),
+    duotoneMode: readMode("duotoneMode"),
+    paperColor: readColor(source.paperColor, DEFAULT_PAPER_COLOR),
+    inkColor: readColor(source.inkColor, DEFAULT_INK_COLOR),
+    autoMode: readMode("autoMode"),
+    autoPresets: Object.fromEntries(
+      PAGE_CLASSES
+        .filter(({ key }) => typeof autoPresets[key] === "string")
+        .map(({ key }) => [key, autoPresets[key]])
+    ),
+    adjustments: readAdjustments(source),
+  };
+}
+
+// Apply whichever filter parameters are present in the URL on top of base settings
+export function readFilterParams(params: URLSearchParams, base: FilterSettings): FilterSettings {
+  const next: FilterSettings = { ...base, autoPresets: { ...base.autoPresets }, adjustments: { ...base.adjustments } };
+  for (const mode of FILTER_MODES) {
+    const value = params.get(mode.param);
+    if (value !== null) next[mode.key] = value === "1" || value === "true";
+  }
+  if (params.has("paper")) next.paperColor = sanitizeHexColor(params.get("paper"), base.paperColor);
+  if (params.has("ink")) next.inkColor = sanitizeHexColor(params.get("ink"), base.inkColor);
+  for (const def of DEFINITIONS) {
+    const value = params.get(def.param);
+    if (value !== null) next.adjustments[def.key as AdjustmentKey] = clampAdjustment(def, value);
+  }
+  return next;
+}
+
+export function writeFilterParams(params: URLSearchParams, settings: FilterSettings) {
+  for (const mode of FILTER_MODES) params.set(mode.param, settings[mode.key] ? "1" : "0");
+  if (settings.duotoneMode) {
+    params.set("paper", settings.paperColor.replace("#", ""));
+    params.set("ink", settings.inkColor.replace("#", ""));
+  }
+  for (const def of DEFINITIONS) params.set(def.param, String(settings.adjustments[def.key as AdjustmentKey]));
+}
+
+export interface FilterPreset {
+  id: string;
+  name: string;
+  adjustments: Record<AdjustmentKey, number>;
+  // Present when the preset uses duotone mode
+  duotone?: { paperColor: string; inkColor: string };
+}
+
+// Presets saved before the filter module stored adjustments flat on the preset, or null for an
+// entry that isn't a preset at all
+function normalizePreset(raw: unknown): FilterPreset | null {
+  const source = asObject(raw);
+  if (!source) return null;
+  const duotone = asObject(source.duotone);
+  return {
+    id: String(source.id),
+    name: String(source.name),
+    adjustments: readAdjustments(source),
+    ...(duotone ? {
+      duotone: {
+        paperColor: readColor(duotone.paperColor, DEFAULT_PAPER_COLOR),
+        inkColor: readColor(duotone.inkColor, DEFAULT_INK_COLOR),
+      },
+    } : {}),
+  };
+}
+
+// The stored preset list, dropping entries that can't be read instead of the whole list
+export function normalizePresets(raw: unknown): FilterPreset[] {
+  if (!Array.isArray(raw)) return [];
+  return raw.flatMap((entry) => normalizePreset(entry) ?? []);
+}
+
+export function createPreset(name: string, settings: FilterSettings): FilterPreset {
+  return {
+    id: Date.now().toString(),
+    name,
+    adjustments: { ...settings.adjustments },
+    ...(settings.duotoneMode ? { duotone: { paperColor: settings.paperColor, inkColor: settings.inkColor } } : {}),
+  };
+}
+
+export function applyPreset(settings: FilterSettings, preset: FilterPreset): FilterSettings {
+  return {
+    ...settings,
+    adjustments: { ...preset.adjustments },
+    duotoneMode: !!preset.duotone,
+    paperColor: preset.duotone?.paperColor ?? settings.paperColor,
+    inkColor: preset.duotone?.inkColor ?? settings.inkColor,
+  };
+}
+
+// Settings for one page in auto mode: the class's assigned preset, or else its built-in profile
+export function getAutoPageSettings(settings: FilterSettings, pageClass: PageClass, presets: FilterPreset[]): FilterSettings {
+  const preset = presets.find((p) => p.id === settings.autoPresets[pageClass]);
+  const profile = preset ? preset.adjustments : AUTO_PROFILES[pageClass];
+  return { ...settings, adjustments: { ...settings.adjustments, ...profile } };
+}
+
+// Adjustments that differ from neutral, in pipeline order
+function getActiveAdjustments(settings: FilterSettings): { def: Adjustment; value: number }[] {
+  return DEFINITIONS
+    .map((def) => ({ def, value: settings.adjustments[def.key as AdjustmentKey] }))
+    .filter(({ def, value }) => value !== def.neutral);
+}
+
+// SVG filters the CSS filter string refers to, for FilterDefs to render
+export function getTransferFilters(settings: FilterSettings): { id: string; transfer: ChannelTransfer }[] {
+  if (!settings.darkMode || settings.duotoneMode) return [];
+  return getActiveAdjustments(settings).flatMap(({ def, value }) =>
+    "transfer" in def ? [{ id: getAdjustmentFilterId(def.key, value), transfer: def.transfer(value) }] : []
+  );
+}
+
+const COLOR_PRESERVE_CSS = "hue-rotate(180deg) saturate(1.1)";
+
+export function getFilterStyle(settings: FilterSettings): { filter?: string } {
+  if (!settings.darkMode) return {};
+  if (settings.duotoneMode) return { filter: `url(#${DUOTONE_FILTER_ID})` };
+  const active = getActiveAdjustments(settings);
+  const parts: string[] = [];
+  for (const def of DEFINITIONS) {
+    const entry = active.find((a) => a.def === def);
+    if (entry) parts.push("css" in def ? def.css(entry.value) : `url(#${getAdjustmentFilterId(def.key, entry.value)})`);
+    // Color preserve mode runs straight after inversion
+    if (def.key === "inversion" && settings.smartDarkMode) parts.push(COLOR_PRESERVE_CSS);
+  }
+  return parts.length > 0 ? { filter: parts.join(" ") } : {};
+}
+
+// Matrices for COLOR_PRESERVE_CSS, applied one after the other
+const COLOR_PRESERVE_MATRICES = [hueRotateMatrix(180), saturateMatrix(1.1)];
+
+// getFilterStyle as a function on one color (0..1 per channel, updated in place): the same filter
+// functions in the same order, using the spec's matrices and transfer functions
+export function getColorTransform(settings: FilterSettings): (rgb: Rgb) => void {
+  if (!settings.darkMode) return () => {};
+  if (settings.duotoneMode) return getDuotoneTransform(settings.paperColor, settings.inkColor);
+
+  const steps: ((rgb: Rgb) => void)[] = [];
+  const active = getActiveAdjustments(settings);
+  for (const def of DEFINITIONS) {
+    const entry = active.find((a) => a.def === def);
+    if (entry) {
+      if ("css" in def) {
+        const matrix = def.matrix(entry.value);
+        steps.push((rgb) => applyColorMatrix(rgb, matrix));
+      } else {
+        const transfer = def.transfer(entry.value);
+        steps.push((rgb) => {
+          rgb[0] = applyTransferFunction(rgb[0], transfer.r);
+          rgb[1] = applyTransferFunction(rgb[1], transfer.g);
+          rgb[2] = applyTransferFunction(rgb[2], transfer.b);
+        });
+      }
+    }
+    if (def.key === "inversion" && settings.smartDarkMode) {
+      for (const matrix of COLOR_PRESERVE_MATRICES) steps.push((rgb) => applyColorMatrix(rgb, matrix));
+    }
+  }
+  return (rgb) => {
+    for (const step of steps) step(rgb);
+  };
+}
+
+// Pixel implementation of getFilterStyle for exports
+export function applyFilterSettings(imageData: ImageData, settings: FilterSettings): ImageData {
+  if (!settings.darkMode) return imageData;
+  if (settings.duotoneMode) return applyDuotone(imageData, settings.paperColor, settings.inkColor);
+
+  // Uint8ClampedArray rounds to the nearest integer on assignment, as the browser does
+  const transform = getColorTransform(settings);
+  const data = imageData.data;
+  const rgb: Rgb = [0, 0, 0];
+  for (let i = 0; i < data.length; i += 4) {
+    rgb[0] = data[i] / 255;
+    rgb[1] = data[i + 1] / 255;
+    rgb[2] = data[i + 2] / 255;
+    transform(rgb);
+    data[i] = rgb[0] * 255;
+    data[i + 1] = rgb[1] * 255;
+    data[i + 2] = rgb[2] * 255;
+  }
+  return imageData;
+}
@@ -0,0 +1,147 @@
+// Page analysis from a low-resolution render: spot pages that already have a dark background,
+// and sort pages into classes (text, scan, photo) for the auto filters
+
+// Width of the low-resolution render the page is sampled from
+const SAMPLE_WIDTH = 96;
+
+// Pages whose background (median luminance) is below this are treated as already dark
+export const DARK_PAGE_LUMINANCE = 0.35;
+
+// Pages sampled when a document opens to decide whether it looks dark as a whole
+export const DETECTION_SAMPLE_PAGES = 3;
+
+// Luminance difference from the background above which a pixel counts as ink
+const INK_THRESHOLD = 0.2;
+// Channel spread (max - min) above which a pixel counts as colored
+const COLOR_THRESHOLD = 0.15;
+
+// Classification rules: lots of color or lots of non-background pixels means photos,
+// a grey or tinted background means a scan, anything else is ordinary text
+const PHOTO_COLOR_FRACTION = 0.2;
+const PHOTO_INK_DENSITY = 0.45;
+const SCAN_BACKGROUND_LUMINANCE = 0.9;
+const SCAN_BACKGROUND_CHROMA = 0.05;
+
+export type PageClass = "text" | "scan" | "photo";
+
+export const PAGE_CLASSES: { key: PageClass; label: string }[] = [
+  { key: "text", label: "Text" },
+  { key: "scan", label: "Scan" },
+  { key: "photo", label: "Photo" },
+];
+
+export interface PageAnalysis {
+  // Median luminance (0..1); the background dominates it however much ink there is
+  luminance: number;
+  // Most common color (0..255 per channel), normally the paper
+  background: [number, number, number];
+  // Fraction of pixels clearly lighter or darker than the background
+  inkDensity: number;
+  // Fraction of noticeably colored pixels
+  colorFraction: number;
+}
+
+// How dark mode treats pages that already look dark:
+// "auto" leaves detected dark pages in their original colors, "invert" filters every page,
+// "original" filters none (the document is dark throughout)
+export type DarkPageMode = "auto" | "invert" | "original";
+
+export const DARK_PAGE_MODES: { key: DarkPageMode; label: string }[] = [
+  { key: "auto", label: "Keep original" },
+  { key: "invert", label: "Invert" },
+  { key: "original", label: "Never invert any page" },
+];
+
+// Rec. 709 luma, on values in 0..255
+function getLuma(r: number, g: number, b: number): number {
+  return (0.2126 * r + 0.7152 * g + 0.0722 * b) / 255;
+}
+
+function analyzePixels(data: Uint8ClampedArray): PageAnalysis {
+  const pixels = data.length / 4;
+  const lumaHistogram = new Uint32Array(256);
+  // Colors quantized to 4 bits per channel, to find the background
+  const colorHistogram = new Uint32Array(4096);
+  let colored = 0;
+  for (let i = 0; i < data.length; i += 4) {
+    const r = data[i], g = data[i + 1], b = data[i + 2];
+    lumaHistogram[Math.round(getLuma(r, g, b) * 255)]++;
+    colorHistogram[((r >> 4) << 8) | ((g >> 4) << 4) | (b >> 4)]++;
+    if ((Math.max(r, g, b) - Math.min(r, g, b)) / 255 > COLOR_THRESHOLD) colored++;
+  }
+
+  let luminance = 1;
+  for (let bin = 0, count = 0; bin < 256; bin++) {
+    count += lumaHistogram[bin];
+    if (count >= pixels / 2) {
+      luminance = bin / 255;
+      break;
+    }
+  }
+
+  let backgroundBin = 0;
+  for (let bin = 1; bin < 4096; bin++) {
+    if (colorHistogram[bin] > colorHistogram[backgroundBin]) backgroundBin = bin;
+  }
+  // Centre of the quantized bin
+  const background: [number, number, number] = [(backgroundBin >> 8) & 15, (backgroundBin >> 4) & 15, backgroundBin & 15]
+    .map((v) => v * 16 + 8) as [number, number, number];
+
+  const backgroundLuma = getLuma(...background);
+  let ink = 0;
+  for (let bin = 0; bin < 256; bin++) {
+    if (Math.abs(bin / 255 - backgroundLuma) > INK_THRESHOLD) ink += lumaHistogram[bin];
+  }
+
+  return { luminance, background, inkDensity: ink / pixels, colorFraction: colored / pixels };
+}
+
+async function measurePage(pdfDoc: any, pageNum: number): Promise<PageAnalysis> {
+  const page = await pdfDoc.getPage(pageNum);
+  const unscaled = page.getViewport({ scale: 1 });
+  const viewport = page.getViewport({ scale: SAMPLE_WIDTH / unscaled.width });
+  const canvas = document.createElement("canvas");
+  canvas.width = Math.max(1, Math.round(viewport.width));
+  canvas.height = Math.max(1, Math.round(viewport.height));
+  const context = canvas.getContext("2d", { willReadFrequently: true })!;
+  await page.render({ canvasContext: context, viewport }).promise;
+  return analyzePixels(context.getImageData(0, 0, canvas.width, canvas.height).data);
+}
+
+const analysisCache = new WeakMap<any, Map<number, Promise<PageAnalysis>>>();
+
+// Histogram analysis of a page, cached per document
+export function getPageAnalysis(pdfDoc: any, pageNum: number): Promise<PageAnalysis> {
+  let pages = analysisCache.get(pdfDoc);
+  if (!pages) {
+    pages = new Map();
+    analysisCache.set(pdfDoc, pages);
+  }
+  const cached = pages.get(pageNum);
+  if (cached) return cached;
+
+  const analysis = measurePage(pdfDoc, pageNum);
+  pages.set(pageNum, analysis);
+  analysis.catch(() => pages?.delete(pageNum));
+  return analysis;
+}
+
+export function classifyPage(analysis: PageAnalysis): PageClass {
+  if (analysis.colorFraction > PHOTO_COLOR_FRACTION || analysis.inkDensity > PHOTO_INK_DENSITY) return "photo";
+  const [r, g, b] = analysis.background;
+  const chroma = (Math.max(r, g, b) - Math.min(r, g, b)) / 255;
+  if (getLuma(r, g, b) < SCAN_BACKGROUND_LUMINANCE || chroma > SCAN_BACKGROUND_CHROMA) return "scan";
+  return "text";
+}
+
+export function isDarkLuminance(luminance: number): boolean {
+  return luminance < DARK_PAGE_LUMINANCE;
+}
+
+// Whether dark mode should filter a page: a per-page override wins, then the document's mode.
+// In auto mode a page that hasn't been measured yet is filtered as usual.
+export function shouldInvertPage(mode: DarkPageMode, override: boolean | undefined, luminance: number | undefined): boolean {
+  if (override !== undefined) return override;
+  if (mode === "auto") return luminance === undefined || !isDarkLuminance(luminance);
+  return mode === "invert";
+}
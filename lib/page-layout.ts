@@ -0,0 +1,92 @@
+// Per-page size table and scroll-mode row layout for documents with mixed page sizes
+
+export interface PageSize {
+  width: number;
+  height: number;
+}
+
+export interface RowLayout {
+  pages: number[];
+  top: number;
+  height: number;
+}
+
+// Vertical gap between rows in scroll mode, in CSS pixels
+export const SCROLL_ROW_GAP = 16;
+
+// Pages scroll mode keeps rasterized at once, and the range offered in settings
+export const DEFAULT_MAX_RENDERED_PAGES = 12;
+export const MAX_RENDERED_PAGES_RANGE = { min: 4, max: 60, step: 4 };
+
+// Pages measured at once while building the size table
+const PAGE_SIZE_BATCH = 32;
+
+async function measurePage(pdfDoc: any, pageNum: number): Promise<PageSize> {
+  const page = await pdfDoc.getPage(pageNum);
+  const viewport = page.getViewport({ scale: 1, rotation: 0 });
+  return { width: viewport.width, height: viewport.height };
+}
+
+// Unscaled, unrotated size of every page (index 0 is page 1). Measuring a long document takes a
+// while, so onSeed first gets a table giving every page the size of page 1 to lay out with.
+export async function loadPageSizes(pdfDoc: any, onSeed?: (sizes: PageSize[]) => void): Promise<PageSize[]> {
+  const first = await measurePage(pdfDoc, 1);
+  onSeed?.(Array.from({ length: pdfDoc.numPages }, () => first));
+  const sizes = [first];
+  for (let start = 2; start <= pdfDoc.numPages; start += PAGE_SIZE_BATCH) {
+    const batch = Array.from({ length: Math.min(PAGE_SIZE_BATCH, pdfDoc.numPages - start + 1) }, (_, i) => start + i);
+    sizes.push(...await Promise.all(batch.map((pageNum) => measurePage(pdfDoc, pageNum))));
+  }
+  return sizes;
+}
+
+export function getDisplaySize(base: PageSize, scale: number, rotation: number): PageSize {
+  const sideways = rotation % 180 !== 0;
+  return {
+    width: (sideways ? base.height : base.width) * scale,
+    height: (sideways ? base.width : base.height) * scale,
+  };
+}
+
+// Offsets of each row from the top of the scroll content, excluding container padding
+export function computeRowLayout(rows: number[][], getSize: (pageNum: number) => PageSize | null): RowLayout[] {
+  const layout: RowLayout[] = [];
+  let top = 0;
+  for (const pages of rows) {
+    const height = Math.max(0, ...pages.map((pageNum) => getSize(pageNum)?.height ?? 0));
+    layout.push({ pages, top, height });
+    top += height + SCROLL_ROW_GAP;
+  }
+  return layout;
+}
+
+// Index of the row under a content offset (binary search over row tops)
+export function findRowAt(layout: RowLayout[], offset: number): number {
+  let low = 0;
+  let high = layout.length - 1;
+  while (low < high) {
+    const mid = Math.ceil((low + high) / 2);
+    if (layout[mid].top <= offset) low = mid;
+    else high = mid - 1;
+  }
+  return Math.max(0, low);
+}
+
+// A spot in scroll mode tied to a page's row, as a fraction of the row's height so it stays on the
+// same content when the row is resized
+export interface RowAnchor {
+  pageNum: number;
+  fraction: number;
+}
+
+export function getRowAnchor(layout: RowLayout[], offset: number): RowAnchor | null {
+  if (layout.length === 0) return null;
+  const row = layout[findRowAt(layout, offset)];
+  return { pageNum: row.pages[0], fraction: row.height > 0 ? Math.max(0, offset - row.top) / row.height : 0 };
+}
+
+// Content offset of an anchor in another layout of the same rows
+export function getRowAnchorOffset(layout: RowLayout[], anchor: RowAnchor): number | null {
+  const row = layout.find((r) => r.pages.includes(anchor.pageNum));
+  return row ? row.top + anchor.fraction * row.height : null;
+}
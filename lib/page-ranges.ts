@@ -0,0 +1,31 @@
+// Page range lists such as "1-5, 9, 12-": single pages, closed ranges, and ranges open at either end
+
+// Sorted, de-duplicated page numbers, or null when any part of the input isn't a valid page or range
+export function parsePageRanges(input: string, totalPages: number): number[] | null {
+  const parts = input.split(",").map((part) => part.trim()).filter(Boolean);
+  if (parts.length === 0) return null;
+
+  const pages = new Set<number>();
+  for (const part of parts) {
+    const match = /^(\d*)\s*(-?)\s*(\d*)$/.exec(part);
+    if (!match || (!match[1] && !match[3])) return null;
+    const [, startText, dash, endText] = match;
+    const start = startText ? parseInt(startText, 10) : 1;
+    const end = dash ? (endText ? parseInt(endText, 10) : totalPages) : start;
+    if (start < 1 || end > totalPages || start > end || (!dash && endText)) return null;
+    for (let page = start; page <= end; page++) pages.add(page);
+  }
+  return [...pages].sort((a, b) => a - b);
+}
+
+// Compact form of a page list, e.g. [1, 2, 3, 9] → "1-3, 9"
+export function formatPageRanges(pages: number[]): string {
+  const sorted = [...new Set(pages)].sort((a, b) => a - b);
+  const ranges: string[] = [];
+  for (let i = 0; i < sorted.length; i++) {
+    const start = sorted[i];
+    while (i + 1 < sorted.length && sorted[i + 1] === sorted[i] + 1) i++;
+    ranges.push(start === sorted[i] ? String(start) : `${start}-${sorted[i]}`);
+  }
+  return ranges.join(", ");
+}
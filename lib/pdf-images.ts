@@ -0,0 +1,131 @@
+// Locate embedded images on a page from its PDF.js operator list, so "invert text only"
+// mode can show them uninverted over the filtered page
+
+export interface ImageRect {
+  x: number;
+  y: number;
+  width: number;
+  height: number;
+}
+
+// Images covering most of the page are scans; leaving them uninverted would undo dark mode entirely
+const FULL_PAGE_IMAGE_COVERAGE = 0.9;
+
+type Matrix = [number, number, number, number, number, number];
+
+const IDENTITY: Matrix = [1, 0, 0, 1, 0, 0];
+
+function multiply(m: Matrix, n: number[]): Matrix {
+  return [
+    m[0] * n[0] + m[2] * n[1],
+    m[1] * n[0] + m[3] * n[1],
+    m[0] * n[2] + m[2] * n[3],
+    m[1] * n[2] + m[3] * n[3],
+    m[0] * n[4] + m[2] * n[5] + m[4],
+    m[1] * n[4] + m[3] * n[5] + m[5],
+  ];
+}
+
+// Bounding box of the unit square an image is painted into, in PDF user space
+function getUnitSquareBox(m: Matrix): number[] {
+  const xs = [m[4], m[0] + m[4], m[2] + m[4], m[0] + m[2] + m[4]];
+  const ys = [m[5], m[1] + m[5], m[3] + m[5], m[1] + m[3] + m[5]];
+  return [Math.min(...xs), Math.min(...ys), Math.max(...xs), Math.max(...ys)];
+}
+
+function collectImageBoxes(operatorList: any): number[][] {
+  const OPS = window.pdfjsLib.OPS;
+  const boxes: number[][] = [];
+  const stack: Matrix[] = [];
+  let ctm = IDENTITY;
+
+  operatorList.fnArray.forEach((fn: number, idx: number) => {
+    const args = operatorList.argsArray[idx];
+    switch (fn) {
+      case OPS.save:
+        stack.push(ctm);
+        break;
+      case OPS.restore:
+        ctm = stack.pop() ?? IDENTITY;
+        break;
+      case OPS.transform:
+        ctm = multiply(ctm, args);
+        break;
+      case OPS.paintFormXObjectBegin:
+        stack.push(ctm);
+        if (args[0]) ctm = multiply(ctm, args[0]);
+        break;
+      case OPS.paintFormXObjectEnd:
+        ctm = stack.pop() ?? IDENTITY;
+        break;
+      case OPS.paintImageXObject:
+      case OPS.paintInlineImageXObject:
+        boxes.push(getUnitSquareBox(ctm));
+        break;
+      case OPS.paintImageXObjectRepeat: {
+        // Same image at several positions: [objId, scaleX, scaleY, positions]
+        const [, scaleX, scaleY, positions] = args;
+        for (let i = 0; i < positions.length; i += 2) {
+          boxes.push(getUnitSquareBox(multiply(ctm, [scaleX, 0, 0, scaleY, positions[i], positions[i + 1]])));
+        }
+        break;
+      }
+      case OPS.paintInlineImageXObjectGroup:
+        // Small inline images merged by PDF.js, each with its own transform
+        for (const entry of args[1]) {
+          boxes.push(getUnitSquareBox(multiply(ctm, entry.transform)));
+        }
+        break;
+    }
+  });
+  return boxes;
+}
+
+const imageBoxCache = new WeakMap<any, Map<number, Promise<number[][]>>>();
+
+// Image bounding boxes in PDF user space, cached per document
+export function getPageImageBoxes(pdfDoc: any, pageNum: number): Promise<number[][]> {
+  let pages = imageBoxCache.get(pdfDoc);
+  if (!pages) {
+    pages = new Map();
+    imageBoxCache.set(pdfDoc, pages);
+  }
+  const cached = pages.get(pageNum);
+  if (cached) return cached;
+
+  const boxes: Promise<number[][]> = pdfDoc.getPage(pageNum).then(async (page: any) => {
+    const [x1, y1, x2, y2] = page.view;
+    const pageArea = (x2 - x1) * (y2 - y1);
+    const all = collectImageBoxes(await page.getOperatorList());
+    return all.filter(([bx1, by1, bx2, by2]) => (bx2 - bx1) * (by2 - by1) < pageArea * FULL_PAGE_IMAGE_COVERAGE);
+  });
+  pages.set(pageNum, boxes);
+  boxes.catch(() => pages?.delete(pageNum));
+  return boxes;
+}
+
+// Convert user-space boxes to rectangles in viewport (CSS pixel) coordinates, clipped to the page
+export function getImageRects(boxes: number[][], viewport: any): ImageRect[] {
+  const rects: ImageRect[] = [];
+  for (const box of boxes) {
+    const [vx1, vy1, vx2, vy2] = viewport.convertToViewportRectangle(box);
+    const x = Math.max(0, Math.min(vx1, vx2));
+    const y = Math.max(0, Math.min(vy1, vy2));
+    const width = Math.min(viewport.width, Math.max(vx1, vx2)) - x;
+    const height = Math.min(viewport.height, Math.max(vy1, vy2)) - y;
+    if (width > 0 && height > 0) rects.push({ x, y, width, height });
+  }
+  return rects;
+}
+
+// Smallest rectangle containing every image
+export function getImageBounds(rects: ImageRect[]): ImageRect {
+  const x = Math.min(...rects.map((r) => r.x));
+  const y = Math.min(...rects.map((r) => r.y));
+  return {
+    x,
+    y,
+    width: Math.max(...rects.map((r) => r.x + r.width)) - x,
+    height: Math.max(...rects.map((r) => r.y + r.height)) - y,
+  };
+}
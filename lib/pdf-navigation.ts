@@ -0,0 +1,111 @@
+// Resolve PDF destinations (links, outline entries) to page numbers
+
+export interface OutlineNode {
+  id: string;
+  title: string;
+  pageNum: number | null;
+  url: string | null;
+  defaultOpen: boolean;
+  items: OutlineNode[];
+}
+
+export interface LinkAnnotation {
+  rect: { x: number; y: number; width: number; height: number };
+  dest: number | null;
+  url: string | null;
+}
+
+// Resolve a named or explicit destination to a 1-based page number
+export async function resolveDestPage(pdfDoc: any, dest: unknown): Promise<number | null> {
+  try {
+    if (typeof dest === "string") {
+      const destRef = await pdfDoc.getDestination(dest);
+      if (destRef && destRef[0]) {
+        const pageIndex = await pdfDoc.getPageIndex(destRef[0]);
+        return pageIndex + 1; // Convert to 1-based
+      }
+    } else if (Array.isArray(dest) && dest[0]) {
+      // Explicit destinations reference the page either by object ref or by index
+      if (typeof dest[0] === "number") return dest[0] + 1;
+      const pageIndex = await pdfDoc.getPageIndex(dest[0]);
+      return pageIndex + 1;
+    }
+  } catch {
+    // Failed to resolve destination
+  }
+  return null;
+}
+
+// Load the document outline with every entry resolved to a page
+export async function loadOutline(pdfDoc: any): Promise<OutlineNode[]> {
+  const outline = await pdfDoc.getOutline();
+  if (!outline) return [];
+
+  const resolveItems = (items: any[], parentId: string): Promise<OutlineNode[]> =>
+    Promise.all(items.map(async (item: any, idx: number) => {
+      const id = `${parentId}${idx}`;
+      return {
+        id,
+        title: item.title || "Untitled",
+        pageNum: item.dest ? await resolveDestPage(pdfDoc, item.dest) : null,
+        url: item.url || null,
+        // PDF outlines store open entries with a positive descendant count
+        defaultOpen: (item.count ?? 0) > 0,
+        items: item.items?.length ? await resolveItems(item.items, `${id}.`) : [],
+      };
+    }));
+
+  return resolveItems(outline, "");
+}
+
+// The entry for the page being read: the closest entry starting at or before it (deepest/latest wins ties)
+export function findCurrentOutlineNode(nodes: OutlineNode[], currentPage: number): OutlineNode | null {
+  let current: OutlineNode | null = null;
+  const visit = (list: OutlineNode[]) => {
+    for (const node of list) {
+      if (node.pageNum !== null && node.pageNum <= currentPage && (!current || node.pageNum >= current.pageNum!)) {
+        current = node;
+      }
+      visit(node.items);
+    }
+  };
+  visit(nodes);
+  return current;
+}
+
+// Extract a page's link annotations in viewport (CSS pixel) coordinates
+export async function extractLinks(pdfDoc: any, page: any, viewport: any): Promise<LinkAnnotation[]> {
+  const annotations = await page.getAnnotations();
+  const links: LinkAnnotation[] = [];
+
+  for (const annot of annotations) {
+    if (annot.subtype === "Link" && annot.rect) {
+      const [x1, y1, x2, y2] = annot.rect;
+      // Transform coordinates using viewport
+      const rect = viewport.convertToViewportRectangle([x1, y1, x2, y2]);
+      const [vx1, vy1, vx2, vy2] = rect;
+
+      // Normalize rect (PDF coords can be inverted)
+      const x = Math.min(vx1, vx2);
+      const y = Math.min(vy1, vy2);
+      const width = Math.abs(vx2 - vx1);
+      const height = Math.abs(vy2 - vy1);
+
+      let dest: number | null = null;
+      let url: string | null = null;
+
+      if (annot.url) {
+        url = annot.url;
+      } else if (annot.dest) {
+        // Internal link - resolve destination to page number
+        dest = await resolveDestPage(pdfDoc, annot.dest);
+      }
+
+      if (dest || url) {
+        links.push({ rect: { x, y, width, height }, dest, url });
+      }
+    }
+  }
+
+  return links;
+}
@@ -0,0 +1,179 @@
+// Helpers for working with PDF.js text content (text layer, search)
+
+export interface TextItemBox {
+  str: string;
+  left: number;
+  top: number;
+  width: number;
+  height: number;
+  angle: number;
+  fontFamily: string;
+  hasEOL: boolean;
+}
+
+type Matrix = [number, number, number, number, number, number];
+
+// Same as pdfjsLib.Util.transform, kept local so this module has no runtime dependency on the CDN build
+function multiplyTransform(m1: number[], m2: number[]): Matrix {
+  return [
+    m1[0] * m2[0] + m1[2] * m2[1],
+    m1[1] * m2[0] + m1[3] * m2[1],
+    m1[0] * m2[2] + m1[2] * m2[3],
+    m1[1] * m2[2] + m1[3] * m2[3],
+    m1[0] * m2[4] + m1[2] * m2[5] + m1[4],
+    m1[1] * m2[4] + m1[3] * m2[5] + m1[5],
+  ];
+}
+
+// Cache text content per document so the text layer and search share one extraction
+const textContentCache = new WeakMap<object, Map<number, Promise<any>>>();
+
+export function getPageTextContent(pdfDoc: any, pageNum: number): Promise<any> {
+  let pages = textContentCache.get(pdfDoc);
+  if (!pages) {
+    pages = new Map();
+    textContentCache.set(pdfDoc, pages);
+  }
+  const cached = pages.get(pageNum);
+  if (cached) return cached;
+  const content: Promise<any> = pdfDoc.getPage(pageNum).then((page: any) => page.getTextContent());
+  // Drop failed extractions so they can be retried
+  content.catch(() => pages.delete(pageNum));
+  pages.set(pageNum, content);
+  return content;
+}
+
+// Marked-content entries in getTextContent() have no string or transform; skip them everywhere
+export function getTextItems(textContent: any): any[] {
+  return textContent.items.filter((item: any) => typeof item.str === "string");
+}
+
+export interface PageText {
+  text: string;
+  // Start offset of each text item within `text`
+  itemOffsets: number[];
+}
+
+// Flatten a page's text items into one searchable string, treating line ends as spaces
+export function buildPageText(items: any[]): PageText {
+  let text = "";
+  const itemOffsets: number[] = [];
+  for (const item of items) {
+    itemOffsets.push(text.length);
+    text += item.str;
+    if (item.hasEOL) text += " ";
+  }
+  return { text, itemOffsets };
+}
+
+export interface SearchOptions {
+  caseSensitive: boolean;
+  wholeWord: boolean;
+  regex: boolean;
+}
+
+// Returns null for an empty query; throws SyntaxError for an invalid regex
+export function buildSearchRegExp(query: string, options: SearchOptions): RegExp | null {
+  if (!query) return null;
+  let source = options.regex ? query : query.replace(/[.*+?^${}()|[\]\\]/g, "\\$&");
+  if (options.wholeWord) source = `\\b(?:${source})\\b`;
+  return new RegExp(source, options.caseSensitive ? "g" : "gi");
+}
+
+export function findInText(text: string, regexp: RegExp): Array<{ start: number; end: number }> {
+  const matches: Array<{ start: number; end: number }> = [];
+  regexp.lastIndex = 0;
+  let match: RegExpExecArray | null;
+  while ((match = regexp.exec(text)) !== null) {
+    if (match[0].length === 0) {
+      // Avoid looping forever on zero-length regex matches
+      regexp.lastIndex++;
+      continue;
+    }
+    matches.push({ start: match.index, end: match.index + match[0].length });
+  }
+  return matches;
+}
+
+export interface TextRangeRect {
+  left: number;
+  top: number;
+  offset: number;
+  width: number;
+  height: number;
+  angle: number;
+}
+
+// Split a character range of the page text into per-item rectangles, estimated from the item's width
+export function getTextRangeRects(boxes: TextItemBox[], itemOffsets: number[], start: number, end: number): TextRangeRect[] {
+  const rects: TextRangeRect[] = [];
+  boxes.forEach((box, idx) => {
+    const itemStart = itemOffsets[idx];
+    const length = box.str.length;
+    const itemEnd = itemStart + length;
+    if (length === 0 || itemEnd <= start || itemStart >= end) return;
+    const from = Math.max(start, itemStart) - itemStart;
+    const to = Math.min(end, itemEnd) - itemStart;
+    rects.push({
+      left: box.left,
+      top: box.top,
+      offset: (box.width * from) / length,
+      width: (box.width * (to - from)) / length,
+      height: box.height,
+      angle: box.angle,
+    });
+  });
+  return rects;
+}
+
+let measureContext: CanvasRenderingContext2D | null = null;
+
+function measureTextWidth(str: string, fontSize: number, fontFamily: string): number {
+  if (!measureContext) {
+    measureContext = document.createElement("canvas").getContext("2d");
+  }
+  if (!measureContext) return 0;
+  measureContext.font = `${fontSize}px ${fontFamily}`;
+  return measureContext.measureText(str).width;
+}
+
+// Position a text item in viewport (CSS pixel) coordinates, mirroring PDF.js' own text layer math
+export function getTextItemBox(item: any, styles: Record<string, any>, viewport: any): TextItemBox {
+  const tx = multiplyTransform(viewport.transform, item.transform);
+  const style = styles[item.fontName] || {};
+  let angle = Math.atan2(tx[1], tx[0]);
+  if (style.vertical) angle += Math.PI / 2;
+
+  const fontHeight = Math.hypot(tx[2], tx[3]);
+  let fontAscent = fontHeight;
+  if (style.ascent) fontAscent = style.ascent * fontHeight;
+  else if (style.descent) fontAscent = (1 + style.descent) * fontHeight;
+
+  const left = angle === 0 ? tx[4] : tx[4] + fontAscent * Math.sin(angle);
+  const top = angle === 0 ? tx[5] - fontAscent : tx[5] - fontAscent * Math.cos(angle);
+  const width = (style.vertical ? item.height : item.width) * viewport.scale;
+
+  return {
+    str: item.str,
+    left,
+    top,
+    width,
+    height: fontHeight,
+    angle,
+    fontFamily: style.fontFamily || "sans-serif",
+    hasEOL: !!item.hasEOL,
+  };
+}
+
+// Start of the item's baseline in viewport coordinates
+export function getTextItemOrigin(item: any, viewport: any): [number, number] {
+  const tx = multiplyTransform(viewport.transform, item.transform);
+  return [tx[4], tx[5]];
+}
+
+// Horizontal stretch needed for the browser font to cover the same width as the PDF glyphs
+export function getTextItemScaleX(box: TextItemBox): number {
+  if (!box.str || box.width <= 0) return 1;
+  const measured = measureTextWidth(box.str, box.height, box.fontFamily);
+  return measured > 0 ? box.width / measured : 1;
+}
@@ -0,0 +1,36 @@
+// Page layout helpers: two-page spreads (book view) and reading direction
+
+export type ReadingDirection = "ltr" | "rtl";
+
+// Horizontal gap between facing pages, in CSS pixels
+export const SPREAD_GAP = 8;
+
+// Group pages into facing pairs; with a cover, page 1 stands alone and pairs start at 2-3
+export function getSpreads(totalPages: number, cover: boolean): number[][] {
+  const spreads: number[][] = [];
+  let pageNum = 1;
+  if (cover && totalPages > 0) {
+    spreads.push([1]);
+    pageNum = 2;
+  }
+  for (; pageNum <= totalPages; pageNum += 2) {
+    spreads.push(pageNum + 1 <= totalPages ? [pageNum, pageNum + 1] : [pageNum]);
+  }
+  return spreads;
+}
+
+export function getSpreadIndex(spreads: number[][], pageNum: number): number {
+  const index = spreads.findIndex((spread) => spread.includes(pageNum));
+  return index === -1 ? 0 : index;
+}
+
+// "4-5" for a spread, "4" for a single page
+export function formatSpreadLabel(pages: number[]): string {
+  return pages.length > 1 ? `${pages[0]}-${pages[pages.length - 1]}` : String(pages[0] ?? "");
+}
+
+// Map a physical left/right action (arrow key, swipe) to a reading step: 1 = next, -1 = previous
+export function getDirectionalStep(towardsRight: boolean, direction: ReadingDirection): 1 | -1 {
+  const step = towardsRight ? 1 : -1;
+  return direction === "rtl" ? (-step as 1 | -1) : step;
+}
@@ -0,0 +1,60 @@
+// Tiled rendering for deep zoom: pages too large for one canvas get a low-resolution
+// backdrop canvas plus full-resolution tiles for the visible area only
+
+// Largest canvas we allocate in one piece (iOS Safari caps canvases at ~16.7M pixels)
+const MAX_CANVAS_PIXELS = 4096 * 4096;
+const MAX_CANVAS_DIMENSION = 8192;
+
+// Pixel budget for the backdrop shown underneath tiles while they render
+const BACKDROP_MAX_PIXELS = 2048 * 2048;
+
+// Tile edge length in CSS pixels
+export const TILE_SIZE = 512;
+
+// Extra area around the viewport to render ahead of scrolling, in CSS pixels
+const TILE_MARGIN = 256;
+
+export interface Tile {
+  key: string;
+  x: number;
+  y: number;
+  width: number;
+  height: number;
+}
+
+export function needsTiles(width: number, height: number, dpr: number): boolean {
+  const deviceWidth = width * dpr;
+  const deviceHeight = height * dpr;
+  return deviceWidth * deviceHeight > MAX_CANVAS_PIXELS || deviceWidth > MAX_CANVAS_DIMENSION || deviceHeight > MAX_CANVAS_DIMENSION;
+}
+
+// Pixel ratio for the page's main canvas: full DPR when it fits, otherwise a low-resolution backdrop
+export function getBackdropPixelRatio(width: number, height: number, dpr: number): number {
+  if (!needsTiles(width, height, dpr)) return dpr;
+  return Math.min(dpr, Math.sqrt(BACKDROP_MAX_PIXELS / (width * height)));
+}
+
+// Tiles of a page (sized width x height CSS px) that intersect the viewport, given both client rects
+export function getVisibleTiles(pageRect: DOMRect, viewportRect: DOMRect, width: number, height: number): Tile[] {
+  const left = Math.max(0, viewportRect.left - pageRect.left - TILE_MARGIN);
+  const top = Math.max(0, viewportRect.top - pageRect.top - TILE_MARGIN);
+  const right = Math.min(width, viewportRect.right - pageRect.left + TILE_MARGIN);
+  const bottom = Math.min(height, viewportRect.bottom - pageRect.top + TILE_MARGIN);
+  if (right <= left || bottom <= top) return [];
+
+  const tiles: Tile[] = [];
+  for (let row = Math.floor(top / TILE_SIZE); row * TILE_SIZE < bottom; row++) {
+    for (let col = Math.floor(left / TILE_SIZE); col * TILE_SIZE < right; col++) {
+      const x = col * TILE_SIZE;
+      const y = row * TILE_SIZE;
+      tiles.push({
+        key: `${col}:${row}`,
+        x,
+        y,
+        width: Math.min(TILE_SIZE, width - x),
+        height: Math.min(TILE_SIZE, height - y),
+      });
+    }
+  }
+  return tiles;
+}
@@ -0,0 +1,458 @@
+// Vector dark export: rewrite the colors in the original PDF's content streams instead of
+// rasterizing pages, so text stays selectable and links, outline and metadata survive.
+// Annotation appearance streams are recolored along with their page.
+// Pages using something the rewrite can't map (shadings, patterns, special color spaces, or images
+// that would have to be filtered) are reported back so the caller can rasterize just those.
+
+import {
+  PDFArray,
+  PDFDict,
+  PDFDocument,
+  PDFFont,
+  PDFHexString,
+  PDFName,
+  PDFNumber,
+  PDFPage,
+  PDFRawStream,
+  PDFRef,
+  PDFStream,
+  StandardFonts,
+  TextRenderingMode,
+  beginText,
+  decodePDFRawStream,
+  degrees,
+  endText,
+  popGraphicsState,
+  pushGraphicsState,
+  rotateAndSkewTextRadiansAndTranslate,
+  setCharacterSqueeze,
+  setFontAndSize,
+  setTextRenderingMode,
+  showText,
+} from "pdf-lib";
+import fontkit from "@pdf-lib/fontkit";
+import type { Rgb } from "@/lib/color-matrix";
+import { toFontText, type ExportFont, type ExportTextItem } from "@/lib/export-text";
+import { EXPORTED_FILTERS_INFO_KEY, type ExportedFilters } from "@/lib/export-metadata";
+
+export interface VectorPage {
+  // Color mapping from getColorTransform, or null to keep the page's original colors
+  transform: ((rgb: Rgb) => void) | null;
+  // Leave embedded images as they are; otherwise a page with images can't be rewritten
+  keepImages: boolean;
+  // Clockwise rotation the page is shown with
+  rotation: number;
+}
+
+type Transform = (rgb: Rgb) => void;
+
+interface Operation {
+  operands: string[];
+  operator: string;
+  // Inline images are copied through byte for byte
+  raw?: string;
+}
+
+// Components of the current fill and stroke color spaces
+interface ColorState {
+  fill: number;
+  stroke: number;
+}
+
+const BLACK = [0];
+
+// Components set by each device color operator
+const DEVICE_COMPONENTS: Record<string, number> = { g: 1, rg: 3, k: 4, G: 1, RG: 3, K: 4 };
+
+// Appearance streams of an annotation: normal, rollover and down
+const APPEARANCE_KEYS = ["N", "R", "D"];
+
+// Stream dictionary entries describing the old encoding, dropped when a stream is re-encoded
+const ENCODING_KEYS = new Set(["/Length", "/Filter", "/DecodeParms", "/DL"]);
+
+// Content streams are bytes; Latin-1 maps each byte to one character and back
+function decodeLatin1(bytes: Uint8Array): string {
+  let text = "";
+  for (let i = 0; i < bytes.length; i += 8192) {
+    text += String.fromCharCode(...bytes.subarray(i, i + 8192));
+  }
+  return text;
+}
+
+function encodeLatin1(text: string): Uint8Array {
+  const bytes = new Uint8Array(text.length);
+  for (let i = 0; i < text.length; i++) bytes[i] = text.charCodeAt(i);
+  return bytes;
+}
+
+function isWhitespace(ch: string) {
+  return ch === " " || ch === "\n" || ch === "\r" || ch === "\t" || ch === "\f" || ch === "\0";
+}
+
+function isDelimiter(ch: string) {
+  return "()<>[]{}/%".includes(ch);
+}
+
+function skipWhitespace(text: string, i: number): number {
+  while (i < text.length && isWhitespace(text[i])) i++;
+  return i;
+}
+
+// Index just past the object starting at i (string, hex string, dict, array, name or plain token)
+function skipObject(text: string, i: number): number {
+  const ch = text[i];
+  if (ch === "(") {
+    let depth = 0;
+    for (; i < text.length; i++) {
+      if (text[i] === "\\") i++;
+      else if (text[i] === "(") depth++;
+      else if (text[i] === ")" && --depth === 0) return i + 1;
+    }
+    return i;
+  }
+  if (ch === "<" && text[i + 1] === "<") {
+    i = skipWhitespace(text, i + 2);
+    while (i < text.length && !(text[i] === ">" && text[i + 1] === ">")) i = skipWhitespace(text, skipObject(text, i));
+    return i + 2;
+  }
+  if (ch === "<") {
+    const end = text.indexOf(">", i);
+    return end < 0 ? text.length : end + 1;
+  }
+  if (ch === "[") {
+    i = skipWhitespace(text, i + 1);
+    while (i < text.length && text[i] !== "]") i = skipWhitespace(text, skipObject(text, i));
+    return i + 1;
+  }
+  const start = i;
+  if (ch === "/") i++;
+  while (i < text.length && !isWhitespace(text[i]) && !isDelimiter(text[i])) i++;
+  // A stray delimiter such as ")" still has to move the parser forward
+  return i === start ? i + 1 : i;
+}
+
+function parseContent(text: string): Operation[] {
+  const operations: Operation[] = [];
+  let operands: string[] = [];
+  let i = skipWhitespace(text, 0);
+  while (i < text.length) {
+    if (text[i] === "%") {
+      while (i < text.length && text[i] !== "\n" && text[i] !== "\r") i++;
+    } else {
+      const start = i;
+      i = skipObject(text, i);
+      const token = text.slice(start, i);
+      const isOperator = !"(<[/".includes(token[0]) && !/^[+-]?(\d+\.?\d*|\.\d+)$/.test(token)
+        && token !== "true" && token !== "false" && token !== "null";
+      if (!isOperator) {
+        operands.push(token);
+      } else if (token === "BI") {
+        // Inline image: key/value pairs up to ID, one whitespace byte, then binary data up to EI
+        let pos = skipWhitespace(text, i);
+        while (pos < text.length && text.slice(pos, skipObject(text, pos)) !== "ID") pos = skipWhitespace(text, skipObject(text, pos));
+        const end = /\sEI(?=\s|$)/g;
+        end.lastIndex = pos + 3;
+        const match = end.exec(text);
+        i = match ? match.index + match[0].length : text.length;
+        operations.push({ operands: [], operator: token, raw: text.slice(start, i) });
+      } else {
+        operations.push({ operands, operator: token });
+        operands = [];
+      }
+    }
+    i = skipWhitespace(text, i);
+  }
+  return operations;
+}
+
+function toRgb(components: number[]): Rgb {
+  if (components.length === 1) return [components[0], components[0], components[0]];
+  if (components.length === 3) return [components[0], components[1], components[2]];
+  const [c, m, y, k] = components;
+  return [(1 - c) * (1 - k), (1 - m) * (1 - k), (1 - y) * (1 - k)];
+}
+
+function formatNumber(value: number): string {
+  return String(Math.round(value * 10000) / 10000);
+}
+
+function mapColor(components: number[], transform: Transform, operator: "rg" | "RG"): Operation {
+  const rgb = toRgb(components);
+  transform(rgb);
+  return { operands: rgb.map(formatNumber), operator };
+}
+
+function serialize(operations: Operation[]): string {
+  return operations
+    .map((op) => op.raw ?? [...op.operands, op.operator].join(" "))
+    .join("\n");
+}
+
+class ContentRewriter {
+  // Form XObjects already handled, with the transform they were rewritten for, or null for forms
+  // kept in their original colors
+  private forms = new Map<string, Transform | null>();
+
+  constructor(private doc: PDFDocument) {}
+
+  private lookupResource(resources: PDFDict | undefined, category: string, name: string) {
+    return resources?.lookupMaybe(PDFName.of(category), PDFDict)?.get(PDFName.of(name.slice(1)));
+  }
+
+  // Number of components for a color space operand; anything beyond plain device-like spaces is unsupported
+  private getComponents(name: string, resources: PDFDict | undefined): number {
+    const device: Record<string, number> = { "/DeviceGray": 1, "/G": 1, "/DeviceRGB": 3, "/RGB": 3, "/DeviceCMYK": 4, "/CMYK": 4 };
+    if (device[name]) return device[name];
+    const space = this.doc.context.lookup(this.lookupResource(resources, "ColorSpace", name));
+    if (space instanceof PDFName && device[space.asString()]) return device[space.asString()];
+    if (space instanceof PDFArray) {
+      const family = space.lookup(0);
+      const kind = family instanceof PDFName ? family.asString() : "";
+      if (kind === "/CalGray") return 1;
+      if (kind === "/CalRGB") return 3;
+      if (kind === "/ICCBased") {
+        const profile = space.lookup(1);
+        const count = profile instanceof PDFStream ? profile.dict.lookup(PDFName.of("N")) : undefined;
+        if (count instanceof PDFNumber && [1, 3, 4].includes(count.asNumber())) return count.asNumber();
+      }
+    }
+    throw new Error(`Unsupported color space ${name}`);
+  }
+
+  private isImageMask(dict: PDFDict | undefined): boolean {
+    const mask = dict?.lookup(PDFName.of("ImageMask"));
+    return mask?.toString() === "true";
+  }
+
+  rewrite(text: string, resources: PDFDict | undefined, transform: Transform, keepImages: boolean): string {
+    const state: ColorState = { fill: 1, stroke: 1 };
+    const stack: ColorState[] = [];
+    const output: Operation[] = [];
+    for (const op of parseContent(text)) {
+      const numbers = op.operands.map(Number);
+      switch (op.operator) {
+        case "q":
+          stack.push({ ...state });
+          output.push(op);
+          break;
+        case "Q":
+          Object.assign(state, stack.pop() ?? state);
+          output.push(op);
+          break;
+        case "g": case "rg": case "k":
+          state.fill = DEVICE_COMPONENTS[op.operator];
+          output.push(mapColor(numbers, transform, "rg"));
+          break;
+        case "G": case "RG": case "K":
+          state.stroke = DEVICE_COMPONENTS[op.operator];
+          output.push(mapColor(numbers, transform, "RG"));
+          break;
+        case "cs": case "CS": {
+          // Setting a color space resets the color to black; rg/RG take over the space and the color
+          const stroke = op.operator === "CS";
+          const components = this.getComponents(op.operands[0], resources);
+          if (stroke) state.stroke = components;
+          else state.fill = components;
+          output.push(mapColor(BLACK, transform, stroke ? "RG" : "rg"));
+          break;
+        }
+        case "sc": case "scn": case "SC": case "SCN": {
+          const stroke = op.operator.startsWith("S");
+          if (op.operands.some((operand) => operand.startsWith("/"))) throw new Error("Pattern colors are not supported");
+          const components = stroke ? state.stroke : state.fill;
+          if (numbers.length !== components) throw new Error(`Unexpected ${op.operator} operands`);
+          output.push(mapColor(numbers, transform, stroke ? "RG" : "rg"));
+          break;
+        }
+        case "sh":
+          throw new Error("Shadings are not supported");
+        case "BI":
+          if (!keepImages && !/\/(IM|ImageMask)\s+true/.test(op.raw ?? "")) throw new Error("Inline images would need filtering");
+          output.push(op);
+          break;
+        case "Do":
+          this.rewriteXObject(op.operands[0], resources, transform, keepImages);
+          output.push(op);
+          break;
+        default:
+          output.push(op);
+      }
+    }
+    return serialize(output);
+  }
+
+  private rewriteXObject(name: string, resources: PDFDict | undefined, transform: Transform | null, keepImages: boolean) {
+    const ref = this.lookupResource(resources, "XObject", name);
+    const stream = this.doc.context.lookup(ref);
+    if (!(ref instanceof PDFRef) || !(stream instanceof PDFRawStream)) throw new Error(`Missing XObject ${name}`);
+    const subtype = stream.dict.lookup(PDFName.of("Subtype"));
+    if (subtype === PDFName.of("Image")) {
+      if (transform && !keepImages && !this.isImageMask(stream.dict)) throw new Error("Images would need filtering");
+      return;
+    }
+    if (subtype === PDFName.of("Form")) this.rewriteForm(ref, stream, resources, transform, keepImages);
+  }
+
+  // Recolor a form XObject (or appearance stream) in place. With a null transform the form and the
+  // forms it draws are only claimed, so a page that recolors them later fails instead.
+  private rewriteForm(ref: PDFRef, stream: PDFRawStream, resources: PDFDict | undefined, transform: Transform | null, keepImages: boolean) {
+    // Forms shared between pages can only carry one set of colors
+    const key = ref.toString();
+    if (this.forms.has(key)) {
+      if (this.forms.get(key) !== transform) throw new Error(`Form ${key} is shared with a page using other filters`);
+      return;
+    }
+    this.forms.set(key, transform);
+    const formResources = stream.dict.lookupMaybe(PDFName.of("Resources"), PDFDict) ?? resources;
+    const text = decodeLatin1(decodePDFRawStream(stream).decode());
+    if (!transform) {
+      this.claimForms(text, formResources);
+      return;
+    }
+    const content = this.rewrite(text, formResources, transform, keepImages);
+    const rewritten = this.doc.context.flateStream(encodeLatin1(content));
+    for (const [entry, value] of stream.dict.entries()) {
+      if (!ENCODING_KEYS.has(entry.asString())) rewritten.dict.set(entry, value);
+    }
+    this.doc.context.assign(ref, rewritten);
+  }
+
+  private claimForms(text: string, resources: PDFDict | undefined) {
+    for (const op of parseContent(text)) {
+      if (op.operator === "Do") this.rewriteXObject(op.operands[0], resources, null, true);
+    }
+  }
+
+  // Appearance streams are forms, either directly under N, R and D or in a dictionary of states
+  private rewriteAnnotations(page: PDFPage, transform: Transform | null, keepImages: boolean) {
+    const annots = page.node.Annots();
+    if (!annots) return;
+    for (const annot of annots.asArray()) {
+      const appearance = this.doc.context.lookup(annot, PDFDict).lookupMaybe(PDFName.of("AP"), PDFDict);
+      if (!appearance) continue;
+      for (const key of APPEARANCE_KEYS) {
+        const entry = appearance.get(PDFName.of(key));
+        const states = this.doc.context.lookup(entry);
+        const refs = states instanceof PDFDict ? states.values() : [entry];
+        for (const ref of refs) {
+          const stream = this.doc.context.lookup(ref);
+          if (ref instanceof PDFRef && stream instanceof PDFRawStream) {
+            this.rewriteForm(ref, stream, undefined, transform, keepImages);
+          }
+        }
+      }
+    }
+  }
+
+  rewritePage(pageIndex: number, { transform, keepImages, rotation }: VectorPage) {
+    const page = this.doc.getPage(pageIndex);
+    page.setRotation(degrees(rotation));
+
+    const contents = page.node.Contents();
+    const streams = contents instanceof PDFArray
+      ? contents.asArray().map((item) => this.doc.context.lookup(item))
+      : contents ? [contents] : [];
+    const text = streams
+      .map((stream) => {
+        if (!(stream instanceof PDFRawStream)) throw new Error("Unreadable page contents");
+        return decodeLatin1(decodePDFRawStream(stream).decode());
+      })
+      .join("\n");
+    if (!transform) {
+      this.claimForms(text, page.node.Resources());
+      this.rewriteAnnotations(page, null, keepImages);
+      return;
+    }
+    const content = this.rewrite(text, page.node.Resources(), transform, keepImages);
+    this.rewriteAnnotations(page, transform, keepImages);
+
+    // Paint the page background first, and start from mapped black as the initial fill and stroke
+    const { x, y, width, height } = page.getCropBox();
+    const prefix = serialize([
+      { operands: [], operator: "q" },
+      mapColor([1], transform, "rg"),
+      { operands: [x, y, width, height].map(formatNumber), operator: "re" },
+      { operands: [], operator: "f" },
+      { operands: [], operator: "Q" },
+      mapColor(BLACK, transform, "rg"),
+      mapColor(BLACK, transform, "RG"),
+    ]);
+    const stream = this.doc.context.flateStream(encodeLatin1(`${prefix}\n${content}\n`));
+    page.node.set(PDFName.of("Contents"), this.doc.context.register(stream));
+  }
+}
+
+// Load a document to recolor page by page. recolorPage yields to the event loop first, so a long
+// document doesn't freeze the page and a cancel can get through between pages. It returns false
+// when the page couldn't be rewritten and keeps its original content.
+export async function createPdfRecolorer(data: Uint8Array) {
+  const doc = await PDFDocument.load(data, { updateMetadata: false });
+  const rewriter = new ContentRewriter(doc);
+  const recolorPage = async (pageNum: number, page: VectorPage): Promise<boolean> => {
+    await new Promise((resolve) => setTimeout(resolve, 0));
+    try {
+      rewriter.rewritePage(pageNum - 1, page);
+      return true;
+    } catch (err) {
+      console.error(`Error recoloring page ${pageNum}, rasterizing it instead:`, err);
+      return false;
+    }
+  };
+  return { doc, recolorPage };
+}
+
+// Replace a page's content with a raster image of the unrotated page (pdf-lib embeds JPEG and PNG),
+// keeping its annotations and other page-level entries; rotation is what the page is shown with
+export async function replacePageWithImage(doc: PDFDocument, pageNum: number, bytes: Uint8Array, format: "jpeg" | "png", rotation: number) {
+  const page = doc.getPage(pageNum - 1);
+  page.setRotation(degrees(rotation));
+  const image = format === "png" ? await doc.embedPng(bytes) : await doc.embedJpg(bytes);
+  const { x, y, width, height } = page.getCropBox();
+  page.node.set(PDFName.of("Contents"), doc.context.obj([]));
+  page.drawImage(image, { x, y, width, height });
+}
+
+const textFonts = new WeakMap<PDFDocument, Promise<PDFFont>>();
+
+// Invisible text over a page replaced by an image, in the export font (subset to the glyphs used)
+// or Helvetica; items are in pixels of an image rendered at `scale` without rotation
+export async function addInvisibleText(doc: PDFDocument, pageNum: number, items: ExportTextItem[], scale: number, exportFont: ExportFont | null) {
+  if (items.length === 0) return;
+  let fontPromise = textFonts.get(doc);
+  if (!fontPromise) {
+    if (exportFont) doc.registerFontkit(fontkit);
+    fontPromise = exportFont ? doc.embedFont(exportFont.bytes, { subset: true }) : doc.embedFont(StandardFonts.Helvetica);
+    textFonts.set(doc, fontPromise);
+  }
+  const font = await fontPromise;
+  const charset = new Set(font.getCharacterSet());
+  const page = doc.getPage(pageNum - 1);
+  const fontKey = page.node.newFontDictionary(font.name, font.ref);
+  const { x: left, y: bottom, height } = page.getCropBox();
+  const top = bottom + height;
+
+  const operators = [pushGraphicsState(), beginText(), setTextRenderingMode(TextRenderingMode.Invisible)];
+  for (const item of items) {
+    const str = Array.from(toFontText(item.str, exportFont), (ch) => (charset.has(ch.codePointAt(0)!) ? ch : "?")).join("");
+    const size = item.size / scale;
+    if (!str.trim() || size <= 0) continue;
+    const naturalWidth = font.widthOfTextAtSize(str, size);
+    operators.push(
+      setFontAndSize(fontKey, size),
+      setCharacterSqueeze(naturalWidth > 0 && item.width > 0 ? (item.width / scale / naturalWidth) * 100 : 100),
+      // Pixel rows run down the page and angles are clockwise; user space is the other way round
+      rotateAndSkewTextRadiansAndTranslate(-item.angle, 0, 0, left + item.x / scale, top - item.y / scale),
+      showText(font.encodeText(str)),
+    );
+  }
+  operators.push(endText(), popGraphicsState());
+  page.pushOperators(...operators);
+}
+
+// Record the export's filters as a custom document info entry; see readExportedFilters
+export function recordExportedFilters(doc: PDFDocument, filters: ExportedFilters) {
+  // Setting the date also creates the info dictionary for files that have none
+  doc.setModificationDate(new Date());
+  const info = doc.context.lookup(doc.context.trailerInfo.Info, PDFDict);
+  info.set(PDFName.of(EXPORTED_FILTERS_INFO_KEY), PDFHexString.fromText(JSON.stringify(filters)));
+}
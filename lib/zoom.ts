@@ -0,0 +1,86 @@
+// Focal-point zoom: keep the content under the pointer (or between the fingers) in place
+// while the zoom level changes
+
+// Zoom limits; the fit modes clamp to the same range
+export const MIN_SCALE = 0.01;
+export const MAX_SCALE = 9;
+
+// Attribute marking page wrappers (data-page-num) inside the viewer's scroll container
+const PAGE_ATTRIBUTE = "data-page-num";
+
+export interface ZoomAnchor {
+  pageNum: number;
+  // Position of the focal point as a fraction of the page's displayed size
+  fx: number;
+  fy: number;
+  // Where that point should end up on screen once the new scale is laid out
+  clientX: number;
+  clientY: number;
+}
+
+// In-progress zoom gesture, previewed with a CSS transform until it ends
+export interface ZoomGesture {
+  startScale: number;
+  scale: number;
+  // Focal point relative to the untransformed content box
+  originX: number;
+  originY: number;
+  // Focal point on screen when the gesture started and now (pinch midpoints can move)
+  startX: number;
+  startY: number;
+  clientX: number;
+  clientY: number;
+}
+
+export function getGestureTransform(gesture: ZoomGesture) {
+  const ratio = gesture.scale / gesture.startScale;
+  return {
+    transform: `translate(${gesture.clientX - gesture.startX}px, ${gesture.clientY - gesture.startY}px) scale(${ratio})`,
+    transformOrigin: `${gesture.originX}px ${gesture.originY}px`,
+  };
+}
+
+export function clampScale(scale: number): number {
+  return Math.min(Math.max(scale, MIN_SCALE), MAX_SCALE);
+}
+
+// Wheel delta (pixels) to zoom factor; trackpad pinches arrive as small ctrl+wheel deltas
+export function getWheelZoomFactor(e: WheelEvent): number {
+  const delta = e.deltaMode === WheelEvent.DOM_DELTA_LINE ? e.deltaY * 16 : e.deltaY;
+  return Math.exp(-delta * 0.01);
+}
+
+function getPageElements(container: HTMLElement): HTMLElement[] {
+  return Array.from(container.querySelectorAll<HTMLElement>(`[${PAGE_ATTRIBUTE}]`));
+}
+
+// Anchor to the page under the point, or the nearest one when the point is in a gap
+export function captureZoomAnchor(container: HTMLElement, clientX: number, clientY: number): ZoomAnchor | null {
+  let best: { el: HTMLElement; rect: DOMRect; distance: number } | null = null;
+  for (const el of getPageElements(container)) {
+    const rect = el.getBoundingClientRect();
+    if (rect.width === 0 || rect.height === 0) continue;
+    const dx = Math.max(rect.left - clientX, 0, clientX - rect.right);
+    const dy = Math.max(rect.top - clientY, 0, clientY - rect.bottom);
+    const distance = Math.hypot(dx, dy);
+    if (!best || distance < best.distance) best = { el, rect, distance };
+    if (distance === 0) break;
+  }
+  if (!best) return null;
+  return {
+    pageNum: parseInt(best.el.getAttribute(PAGE_ATTRIBUTE) || "0", 10),
+    fx: (clientX - best.rect.left) / best.rect.width,
+    fy: (clientY - best.rect.top) / best.rect.height,
+    clientX,
+    clientY,
+  };
+}
+
+// Scroll so the anchored page point sits under the anchor's client position again
+export function restoreZoomAnchor(container: HTMLElement, anchor: ZoomAnchor) {
+  const el = container.querySelector<HTMLElement>(`[${PAGE_ATTRIBUTE}="${anchor.pageNum}"]`);
+  if (!el) return;
+  const rect = el.getBoundingClientRect();
+  container.scrollLeft += rect.left + anchor.fx * rect.width - anchor.clientX;
+  container.scrollTop += rect.top + anchor.fy * rect.height - anchor.clientY;
+}